@@ -0,0 +1,214 @@
+#!/usr/bin/env node
+import { VersionBump, languageLabel, processLanguages } from "../src/model";
+import { ImportResult } from "../src/schema";
+import { releasedVersion, submitVersion } from "../src/approval";
+import { missingForRuns, pdfFileName, pdfRuns, renderProcessPdf } from "../src/pdf";
+import { baseUrlError } from "../src/qr";
+import { LabelItem, renderLabelSheet } from "../src/labels";
+import { hasStoredId, loadNodeFonts, nodeImageResolver, readProcessFile, writeOutput, writeProcessFile } from "./node";
+
+/** ------------------------
+ *  Kommandozeile: prüfen, Version einreichen, PDFs und QR-Etiketten im Stapel erzeugen
+ *  ------------------------ */
+const USAGE = `Aufruf:
+  prozess-doku validate <datei.json …>
+  prozess-doku bump <datei.json …> --author <Name> [--major | --minor | --patch] [--note <Text>]
+  prozess-doku pdf <datei.json …> [--out <Ordner>] [--base-url <URL>]
+  prozess-doku labels <datei.json …> [--out <Ordner>] [--base-url <URL>]
+
+  validate  Dateien prüfen (Formatversion, Pflichtfelder, Fotos, Übersetzungen)
+  bump      Geänderte Prozesse als neue Version zur Prüfung einreichen (Standard: --minor)
+  pdf       PDFs je Sprache bzw. zweisprachig wie im Layout eingestellt; nicht freigegebene
+            Stände erhalten das Wasserzeichen „Entwurf“; QR-Code mit Prozess-ID und Version,
+            mit --base-url als Link auf die App; Dateien ohne gespeicherte Prozess-ID schlagen fehl
+  labels    Etikettenbogen (A4, 2 × 5) mit QR-Codes der Prozesse, ohne Version`;
+
+const VALUE_FLAGS = ["out", "author", "note", "base-url"];
+const SWITCHES = ["major", "minor", "patch", "help"];
+const NO_STORED_ID = "Prozess-ID nicht in der Datei gespeichert – Datei in der App laden und wieder speichern";
+
+interface Args {
+  command: string;
+  files: string[];
+  flags: Record<string, string | true>;
+}
+
+/** Liefert die Argumente oder eine Fehlermeldung */
+function parseArgs(argv: string[]): Args | string {
+  const command = argv[0] && !argv[0].startsWith("--") ? argv[0] : "";
+  const rest = command ? argv.slice(1) : argv;
+  const files: string[] = [];
+  const flags: Args["flags"] = {};
+  for (let i = 0; i < rest.length; i++) {
+    const a = rest[i];
+    if (!a.startsWith("--")) {
+      files.push(a);
+      continue;
+    }
+    const name = a.slice(2);
+    if (VALUE_FLAGS.includes(name)) {
+      if (rest[i + 1] === undefined) return `--${name} erwartet einen Wert.`;
+      flags[name] = rest[++i];
+    } else if (SWITCHES.includes(name)) {
+      flags[name] = true;
+    } else {
+      return `Unbekannte Option ${a}.`;
+    }
+  }
+  return { command, files, flags };
+}
+
+/** Prüfergebnis ausgeben; liefert den Prozess oder null bei Fehlern */
+function report(file: string, r: ImportResult) {
+  const errors = r.issues.filter((i) => i.level === "error");
+  console.log(`${r.process ? "✓" : "✗"} ${file}${r.process ? ` – ${r.process.name} v${r.process.version}` : ""}`);
+  if (r.migrations.length > 0) console.log(`    Format v${r.fromVersion} → aktuell: ${r.migrations.join("; ")}`);
+  for (const i of r.issues) console.log(`    ${i.level === "error" ? "Fehler" : "Warnung"}  ${i.path}: ${i.message}`);
+  return errors.length === 0 ? r.process : null;
+}
+
+function validate(files: string[]) {
+  let failed = 0;
+  for (const file of files) {
+    const p = report(file, readProcessFile(file));
+    if (!p) {
+      failed++;
+      continue;
+    }
+    const [primary, ...others] = processLanguages(p);
+    if (others.length > 0) {
+      const missing = missingForRuns(p, others.map((lang) => ({ lang })));
+      if (missing.length > 0) console.log(`    Hinweis  ${missing.length} fehlende Übersetzung(en); dort wird ${languageLabel(primary)} verwendet`);
+    }
+  }
+  console.log(`${files.length - failed} von ${files.length} Datei(en) gültig.`);
+  return failed > 0 ? 1 : 0;
+}
+
+function bump(files: string[], flags: Args["flags"]) {
+  const kinds = (["major", "minor", "patch"] as VersionBump[]).filter((k) => flags[k]);
+  if (kinds.length > 1) return usage("Bitte nur eine von --major, --minor, --patch angeben.");
+  if (typeof flags.author !== "string" || !flags.author.trim()) return usage("--author ist erforderlich (Vier-Augen-Prinzip bei der Prüfung).");
+  const submission = { bump: kinds[0] || "minor", author: flags.author, note: typeof flags.note === "string" ? flags.note : "" };
+  let failed = 0;
+  for (const file of files) {
+    const r = readProcessFile(file);
+    const p = r.process;
+    if (!p) {
+      report(file, r);
+      failed++;
+      continue;
+    }
+    const result = submitVersion(p, submission);
+    if (result === "unchanged") {
+      console.log(`– ${file} – unverändert (v${p.version})`);
+      continue;
+    }
+    writeProcessFile(file, p);
+    console.log(`✓ ${file} – v${p.version} ${result === "created" ? "zur Prüfung eingereicht" : "erneut eingereicht"}`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+async function pdf(files: string[], flags: Args["flags"]) {
+  const out = typeof flags.out === "string" ? flags.out : ".";
+  const qrBaseUrl = typeof flags["base-url"] === "string" ? flags["base-url"] : undefined;
+  const fonts = loadNodeFonts();
+  const written = new Map<string, string>(); // PDF-Name → Quelldatei
+  let failed = 0;
+  for (const file of files) {
+    const r = readProcessFile(file);
+    const p = r.process;
+    if (!p) {
+      report(file, r);
+      failed++;
+      continue;
+    }
+    if (!hasStoredId(file)) {
+      // Sonst trüge jedes PDF eine neue, zufällige ID und der QR-Code passte zu keinem Prozess
+      console.log(`✗ ${file} – ${NO_STORED_ID}`);
+      failed++;
+      continue;
+    }
+    const warnings: string[] = [];
+    const resolver = nodeImageResolver((m) => warnings.push(m));
+    const released = releasedVersion(p);
+    const runs = pdfRuns(p, released);
+    const missing = missingForRuns(p, runs);
+    if (missing.length > 0) warnings.push(`${missing.length} fehlende Übersetzung(en); dort wird ${languageLabel(processLanguages(p)[0])} verwendet`);
+    const outputs: string[] = [];
+    for (const options of runs) {
+      const name = pdfFileName(p, options);
+      if (written.has(name)) {
+        warnings.push(`${name} wurde bereits aus ${written.get(name)} erzeugt – übersprungen`);
+        failed++;
+        continue;
+      }
+      const doc = await renderProcessPdf(p, resolver, fonts, { ...options, qrBaseUrl });
+      outputs.push(writeOutput(out, name, doc.output("arraybuffer")));
+      written.set(name, file);
+    }
+    console.log(`${outputs.length === runs.length ? "✓" : "✗"} ${file} – ${released ? `freigegeben v${released.version}` : "Entwurf"} → ${outputs.join(", ") || "–"}`);
+    Array.from(new Set(warnings)).forEach((w) => console.log(`    Warnung  ${w}`));
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+function labels(files: string[], flags: Args["flags"]) {
+  const out = typeof flags.out === "string" ? flags.out : ".";
+  const items: LabelItem[] = [];
+  let failed = 0;
+  for (const file of files) {
+    const r = readProcessFile(file);
+    const p = r.process;
+    if (!p) {
+      report(file, r);
+      failed++;
+      continue;
+    }
+    if (!hasStoredId(file)) {
+      console.log(`✗ ${file} – ${NO_STORED_ID}`);
+      failed++;
+      continue;
+    }
+    if (items.some((x) => x.id === p.id)) {
+      console.log(`– ${file} – Prozess-ID bereits enthalten, übersprungen`);
+      continue;
+    }
+    items.push({ id: p.id, name: p.name });
+  }
+  if (items.length > 0) {
+    const doc = renderLabelSheet(items, loadNodeFonts(), typeof flags["base-url"] === "string" ? flags["base-url"] : undefined);
+    console.log(`✓ ${items.length} Etikett(en) → ${writeOutput(out, "QR-Etiketten.pdf", doc.output("arraybuffer"))}`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+function usage(message?: string) {
+  if (message) console.error(`${message}\n`);
+  console.error(USAGE);
+  return 2;
+}
+
+async function main(argv: string[]) {
+  const args = parseArgs(argv);
+  if (typeof args === "string") return usage(args);
+  if (!args.command || args.flags.help || args.command === "help") return usage();
+  if (!["validate", "bump", "pdf", "labels"].includes(args.command)) return usage(`Unbekannter Befehl „${args.command}“.`);
+  if (args.files.length === 0) return usage("Bitte mindestens eine Prozessdatei angeben.");
+  if (typeof args.flags["base-url"] === "string" && baseUrlError(args.flags["base-url"])) return usage(`--base-url: ${baseUrlError(args.flags["base-url"])}`);
+  if (args.command === "validate") return validate(args.files);
+  if (args.command === "bump") return bump(args.files, args.flags);
+  if (args.command === "labels") return labels(args.files, args.flags);
+  return pdf(args.files, args.flags);
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (e) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  }
+);
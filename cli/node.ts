@@ -0,0 +1,69 @@
+import fs from "fs";
+import path from "path";
+import jsPDF from "jspdf";
+import { ProcessData } from "../src/model";
+import { ImportResult, importProcess, serializeProcess } from "../src/schema";
+import { ImageResolver, PdfFonts, pdfImageFormat } from "../src/pdf";
+
+/** ------------------------
+ *  Node-Anbindung: Dateien, Schriften, Bilder ohne Browser
+ *  ------------------------ */
+/** Prozessdatei lesen und wie beim Import im Browser migrieren/prüfen */
+export function readProcessFile(file: string): ImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    const message = e instanceof SyntaxError ? `Kein gültiges JSON: ${e.message}` : "Datei nicht lesbar.";
+    return { process: null, fromVersion: 0, migrations: [], issues: [{ level: "error", path: "Datei", message }] };
+  }
+  return importProcess(raw);
+}
+
+/** Prozess-ID steht in der Datei; sonst vergibt der Import bei jedem Lesen eine neue */
+export function hasStoredId(file: string) {
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+    return typeof raw?.id === "string" && raw.id !== "";
+  } catch {
+    return false;
+  }
+}
+
+export function writeProcessFile(file: string, p: ProcessData) {
+  fs.writeFileSync(file, JSON.stringify(serializeProcess(p), null, 2) + "\n");
+}
+
+/** DejaVu Sans aus node_modules, wie im Browser-Build */
+export function loadNodeFonts(): PdfFonts {
+  const read = (name: string) => fs.readFileSync(require.resolve(`dejavu-fonts-ttf/ttf/${name}`)).toString("base64");
+  return { regular: read("DejaVuSans.ttf"), bold: read("DejaVuSans-Bold.ttf") };
+}
+
+/** Ohne Canvas werden Markierungen nicht eingebrannt, sondern im PDF als Vektorgrafik überzeichnet.
+ *  Formate, die jsPDF nicht direkt kennt (GIF, BMP, SVG), werden übersprungen. */
+export function nodeImageResolver(onSkip: (message: string) => void): ImageResolver {
+  const probe = new jsPDF();
+  return async (step, photoIndex) => {
+    const data = step.photos[photoIndex];
+    const format = pdfImageFormat(data);
+    if (!format) {
+      onSkip(`Schritt ${step.index}, Foto ${photoIndex + 1}: Bildformat ohne Browser nicht exportierbar`);
+      return null;
+    }
+    try {
+      const { width, height } = probe.getImageProperties(data);
+      return { data, format, width, height, annotations: step.annotations?.[photoIndex] };
+    } catch {
+      onSkip(`Schritt ${step.index}, Foto ${photoIndex + 1}: Bild nicht lesbar`);
+      return null;
+    }
+  };
+}
+
+export function writeOutput(dir: string, name: string, data: ArrayBuffer) {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, Buffer.from(data));
+  return file;
+}
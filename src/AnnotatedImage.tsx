@@ -0,0 +1,23 @@
+import React, { useEffect, useState } from "react";
+import { Annotation } from "./model";
+import { renderAnnotated } from "./annotations";
+
+/** Foto mit eingebrannten Markierungen; zeigt bis zum Rendern das Original */
+export default function AnnotatedImage(props: { src: string; annotations?: Annotation[] } & React.ImgHTMLAttributes<HTMLImageElement>) {
+  const { src, annotations, ...rest } = props;
+  const [rendered, setRendered] = useState(src);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRendered(src);
+    renderAnnotated(src, annotations).then(
+      (url) => !cancelled && setRendered(url),
+      () => undefined
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [src, annotations]);
+
+  return <img {...rest} src={rendered} alt={rest.alt ?? ""} />;
+}
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "./ui";
+import { Annotation, AnnotationKind, TextItem, uid } from "./model";
+import { ANNOTATION_COLORS, drawAnnotations } from "./annotations";
+import { loadImage } from "./images";
+import { t } from "./i18n";
+import { toast } from "./Toasts";
+
+/** ------------------------
+ *  Markierungs-Editor: Pfeile, Rechtecke, Kreise, nummerierte Markierungen, Beschriftungen
+ *  ------------------------ */
+const VIEW_MAX = 640;
+
+const TOOLS: AnnotationKind[] = ["arrow", "rect", "circle", "marker", "label"];
+
+interface Props {
+  src: string;
+  annotations: Annotation[];
+  texts: TextItem[];   // Texte des Schritts zum Verknüpfen
+  stepNo: number;
+  onSave: (annotations: Annotation[]) => void;
+  onClose: () => void;
+}
+
+export default function AnnotationEditor(props: Props) {
+  const { src, texts, stepNo, onSave, onClose } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [items, setItems] = useState<Annotation[]>(props.annotations);
+  const [tool, setTool] = useState<AnnotationKind>("arrow");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [drawing, setDrawing] = useState<Annotation | null>(null);
+
+  useEffect(() => {
+    loadImage(src).then(setImg, () => toast(t("photo.loadError")));
+  }, [src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!img || !canvas) return;
+    const s = Math.min(VIEW_MAX / Math.max(img.naturalWidth, img.naturalHeight), 1);
+    canvas.width = Math.round(img.naturalWidth * s);
+    canvas.height = Math.round(img.naturalHeight * s);
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    drawAnnotations(ctx, drawing ? [...items, drawing] : items, canvas.width, canvas.height);
+  }, [img, items, drawing]);
+
+  function relPoint(e: React.PointerEvent<HTMLCanvasElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - r.left) / r.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - r.top) / r.height, 0), 1),
+    };
+  }
+
+  function nextMarkerNo() {
+    const nums = items.filter((a) => a.kind === "marker").map((a) => parseInt(a.text || "0", 10) || 0);
+    return String(Math.max(0, ...nums) + 1);
+  }
+
+  function onPointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    const p = relPoint(e);
+    const base = { id: uid(), kind: tool, color, x1: p.x, y1: p.y, x2: p.x, y2: p.y };
+    if (tool === "marker") {
+      setItems((prev) => [...prev, { ...base, text: nextMarkerNo() }]);
+      return;
+    }
+    if (tool === "label") {
+      const text = prompt(t("annotation.labelPrompt"));
+      if (text && text.trim()) setItems((prev) => [...prev, { ...base, text: text.trim() }]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrawing(base);
+  }
+
+  function onPointerUp() {
+    if (!drawing) return;
+    // versehentliche Klicks ohne Ausdehnung verwerfen
+    if (Math.abs(drawing.x2 - drawing.x1) > 0.01 || Math.abs(drawing.y2 - drawing.y1) > 0.01) {
+      setItems((prev) => [...prev, drawing]);
+    }
+    setDrawing(null);
+  }
+
+  function update(id: string, patch: Partial<Annotation>) {
+    setItems((prev) => prev.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+  }
+
+  const kindLabel = (k: AnnotationKind) => t(`annotation.${k}`);
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "rgba(17,24,39,0.6)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 10 }}>
+      <div style={{ background: "#fff", borderRadius: 12, padding: 16, maxWidth: "95vw", maxHeight: "95vh", overflow: "auto" }}>
+        <h3 style={{ marginTop: 0 }}>{t("annotation.title")}</h3>
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center", marginBottom: 8 }}>
+          {TOOLS.map((k) => (
+            <Button key={k} variant={tool === k ? "default" : "outline"} onClick={() => setTool(k)}>
+              {kindLabel(k)}
+            </Button>
+          ))}
+          <div style={{ width: 12 }} />
+          {ANNOTATION_COLORS.map((c) => (
+            <button
+              key={c}
+              title={c}
+              onClick={() => setColor(c)}
+              style={{ width: 24, height: 24, borderRadius: 12, background: c, border: color === c ? "3px solid #111827" : "1px solid #d1d5db", cursor: "pointer" }}
+            />
+          ))}
+        </div>
+        <canvas
+          ref={canvasRef}
+          style={{ display: "block", maxWidth: "100%", touchAction: "none", cursor: "crosshair" }}
+          onPointerDown={onPointerDown}
+          onPointerMove={(e) => {
+            if (!drawing) return;
+            const p = relPoint(e);
+            setDrawing({ ...drawing, x2: p.x, y2: p.y });
+          }}
+          onPointerUp={onPointerUp}
+        />
+
+        {items.length > 0 && (
+          <ul style={{ margin: "10px 0 0", paddingLeft: 0, listStyle: "none", display: "grid", gap: 4, fontSize: 14 }}>
+            {items.map((a) => (
+              <li key={a.id} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <span style={{ width: 12, height: 12, borderRadius: 6, background: a.color, border: "1px solid #d1d5db" }} />
+                <span style={{ minWidth: 90 }}>
+                  {kindLabel(a.kind)}
+                  {a.kind === "marker" && ` ${a.text}`}
+                  {a.kind === "label" && `: ${a.text}`}
+                </span>
+                {a.kind === "marker" && (
+                  <select value={a.textId || ""} onChange={(e) => update(a.id, { textId: e.target.value || undefined })}>
+                    <option value="">{t("annotation.noText")}</option>
+                    {texts.map((x, i) => (
+                      <option key={x.id} value={x.id}>
+                        {stepNo}.{i + 1} {x.content.slice(0, 40)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <Button variant="outline" style={{ padding: "2px 8px", fontSize: 12 }} onClick={() => setItems((prev) => prev.filter((x) => x.id !== a.id))}>
+                  {t("common.remove")}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ marginTop: 12, display: "flex", gap: 8 }}>
+          <Button variant="outline" onClick={() => setItems([])} disabled={items.length === 0}>{t("annotation.removeAll")}</Button>
+          <div style={{ flex: 1 }} />
+          <Button variant="outline" onClick={onClose}>{t("common.cancel")}</Button>
+          <Button onClick={() => onSave(items)}>{t("common.apply")}</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
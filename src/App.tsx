@@ -1,92 +1,51 @@
 ﻿import React, { useEffect, useRef, useState } from "react";
-import jsPDF from "jspdf";
+import { Button, Input, Textarea } from "./ui";
+import { Annotation, PdfLayout, ProcessData, RESOURCE_KINDS, ResourceKind, SEVERITIES, Severity, Signature, StepData, StepMeta, TextItem, VersionBump, VersionSnapshot, bumpVersion, contentKey, ensureIndices, languageLabel, newStep, normalizeLayout, normalizeStep, parseVersion, photoAnnotations, processLanguages, translated, uid, uuid, versionError, withTranslation, formatResource, markersForText, resourceKindLabel, severityInfo, severityLabel, stepHeading, stepMeta } from "./model";
+import { EditorDraft, createRecord, deleteTemplate, listExecutions, listLibrarySteps, listTemplates, loadRecord, saveExecution, saveRecord, saveTemplate } from "./storage";
+import Library from "./Library";
+import Lookup, { appUrl } from "./Lookup";
+import ProcessPreview from "./Preview";
+import HistoryPanel from "./History";
+import StepNavigator from "./StepNavigator";
+import PhotoEditor from "./PhotoEditor";
+import AnnotationEditor from "./AnnotationEditor";
+import AnnotatedImage from "./AnnotatedImage";
+import CameraCapture, { hasCamera } from "./CameraCapture";
+import LayoutSettings from "./LayoutSettings";
+import LanguagesPanel from "./Languages";
+import { pdfImage } from "./annotations";
+import { ImageSettings, loadImageSettings, processPhoto, saveImageSettings } from "./images";
+import { PdfFonts, missingForRuns, pdfFileName, pdfRuns, renderProcessPdf } from "./pdf";
+import { loadPdfFonts } from "./fonts";
+import { baseFileName, downloadBlob, exportBundle, exportHtml, exportMarkdown, readBundle } from "./bundle";
+import { ImportResult, importProcess, serializeProcess } from "./schema";
+import ImportPreview from "./ImportPreview";
+import { EMPTY_STACK, EditorSnapshot, UndoStack, record, redo, undo } from "./undo";
+import ExecutionView from "./Execution";
+import ExecutionsPanel from "./Executions";
+import { ExecutionRecord, executionFileName, executionSteps, startExecution } from "./execution";
+import { renderExecutionPdf } from "./protocol";
+import ApprovalPanel from "./Approval";
+import { ApprovalAction, applyApproval, releasedVersion, submitVersion } from "./approval";
+import StepLibraryPanel from "./StepLibrary";
+import TemplatePicker from "./TemplatePicker";
+import { LibraryStep, ProcessTemplate, placeholders, processFromTemplate, stepFromLibrary, templateFromProcess } from "./templates";
+import { outlineOf, searchOutline, searchTerms } from "./search";
+import { HitList } from "./Search";
+import { activateUpdate, promptInstall, pwaState, subscribePwa } from "./pwa";
+import { UI_LANGUAGES, UiLang, t, uiLang } from "./i18n";
+import { saveUiLang } from "./uiLang";
+import Toasts, { toast } from "./Toasts";
 
-/** ------------------------
- *  Hilfs-UI (ohne Fremdbibliotheken)
- *  ------------------------ */
-function Button(props: React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: "default" | "outline" }) {
-  const { variant = "default", style, ...rest } = props;
-  const styles: React.CSSProperties = {
-    padding: "8px 12px",
-    borderRadius: 10,
-    border: variant === "outline" ? "1px solid #d1d5db" : "1px solid transparent",
-    background: props.disabled ? "#e5e7eb" : variant === "outline" ? "#fff" : "#111827",
-    color: props.disabled ? "#9ca3af" : variant === "outline" ? "#111827" : "#fff",
-    cursor: props.disabled ? "not-allowed" : "pointer",
-    fontSize: 14,
-    ...style,
-  };
-  return <button {...rest} style={styles} />;
-}
-
-function Input(props: React.InputHTMLAttributes<HTMLInputElement>) {
-  return (
-    <input
-      {...props}
-      style={{
-        ...props.style,
-        padding: 8,
-        borderRadius: 10,
-        border: "1px solid #d1d5db",
-        width: "100%",
-      }}
-    />
-  );
-}
-
-function Textarea(props: React.TextareaHTMLAttributes<HTMLTextAreaElement>) {
-  return (
-    <textarea
-      {...props}
-      style={{
-        ...props.style,
-        padding: 8,
-        borderRadius: 10,
-        border: "1px solid #d1d5db",
-        width: "100%",
-        minHeight: 90,
-      }}
-    />
-  );
-}
-
-/** ------------------------
- *  Typen & Utils
- *  ------------------------ */
-interface TextItem {
-  id: string;
-  content: string;
-  important: boolean;
-}
-
-interface StepData {
-  index: number;       // Schritt-Nr. (1-basiert)
-  photos: string[];    // DataURLs
-  texts: TextItem[];   // 1.1, 1.2 …
-  done?: boolean;
-}
-
-interface ProcessData {
-  name: string;
-  version: string;     // z. B. "1.0"
-  createdAt: string;   // ISO
-  steps: StepData[];
-}
-
-function uid() {
-  return Math.random().toString(36).slice(2, 10);
-}
+const AUTOSAVE_DELAY = 400; // ms
+const AUTHOR_KEY = "prozess-doku.author";
+const OPERATOR_KEY = "prozess-doku.operator";
+const RESUME_KEY = "prozess-doku.resume"; // nach einem Update wieder öffnen (sessionStorage)
+const QR_BASE_KEY = "prozess-doku.qrBaseUrl"; // leer = QR-Codes ohne Link
 
-function parseVersion(v: string) {
-  const m = v.match(/^(\d+)\.(\d+)$/);
-  if (!m) return { major: 1, minor: 0 };
-  return { major: parseInt(m[1], 10) || 1, minor: parseInt(m[2], 10) || 0 };
-}
-
-function bumpVersion(v: string) {
-  const { major, minor } = parseVersion(v);
-  if (minor < 9) return `${major}.${minor + 1}`;
-  return `${major + 1}.0`;
+/** Über einen QR-Link geöffnet (…?process=…&version=…) → Adresse als Code für die Suche */
+function scannedLink() {
+  return new URLSearchParams(window.location.search).has("process") ? window.location.href : undefined;
 }
 
 /** ------------------------
@@ -96,109 +55,562 @@ export default function App() {
   // Prozess
   const [process, setProcess] = useState<ProcessData | null>(null);
   const [nameInput, setNameInput] = useState("");
+  const [nameInputError, setNameInputError] = useState(false);
   const [versionInput, setVersionInput] = useState("1.0");
+  const [versionInputError, setVersionInputError] = useState<string | null>(null);
 
   // Editor-Zustand
   const [currentIndex, setCurrentIndex] = useState(0); // Index im steps-Array
   const [pendingPhotos, setPendingPhotos] = useState<string[]>([]);
+  const [pendingAnnotations, setPendingAnnotations] = useState<Annotation[][]>([]); // je Foto
   const [pendingTexts, setPendingTexts] = useState<TextItem[]>([]);
+  const [pendingMeta, setPendingMeta] = useState<StepMeta>({});
   const [textDraft, setTextDraft] = useState("");
-  const [textImportant, setTextImportant] = useState(false);
+  const [textSeverity, setTextSeverity] = useState<Severity>("none");
+  const [resourceKind, setResourceKind] = useState<ResourceKind>("tool");
+  const [resourceDraft, setResourceDraft] = useState("");
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState("");
+  const [dragTextFrom, setDragTextFrom] = useState<number | null>(null);
+  const [editLang, setEditLang] = useState("de"); // Sprache, in der gerade bearbeitet/übersetzt wird
+
+  // Fotos
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(loadImageSettings);
+  const [editingPhoto, setEditingPhoto] = useState<number | null>(null);
+  const [annotatingPhoto, setAnnotatingPhoto] = useState<number | null>(null);
+  const [processingPhotos, setProcessingPhotos] = useState(false);
+  const [cameraAvailable, setCameraAvailable] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
 
   // Finalisierung / Export
-  const [lastSnapshot, setLastSnapshot] = useState<string | null>(null);
   const [finalized, setFinalized] = useState(false);
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_KEY) || "");
+  const [changeNote, setChangeNote] = useState("");
+  const [bumpKind, setBumpKind] = useState<VersionBump>("minor");
+
+  // Lokale Bibliothek
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+  const [autosaveFailed, setAutosaveFailed] = useState(false);
+  // Zuletzt geöffneter/gespeicherter Stand – unveränderte Prozesse nicht neu datieren
+  const savedRef = useRef<{ process: ProcessData; photos: string[]; annotations: Annotation[][]; texts: TextItem[]; meta: StepMeta } | null>(null);
+  // Wiederhergestellte Puffer nicht durch den Schrittwechsel-Effekt überschreiben
+  const skipBufferLoad = useRef(false);
 
   const loadRef = useRef<HTMLInputElement>(null);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; result: ImportResult } | null>(null);
+  // Inhalt beim letzten Öffnen/Speichern als Datei – für die Nachfrage vor dem Laden
+  const fileSavedKey = useRef<string | null>(null);
+  // Autosave ruft immer das aktuelle persist (mit dem Stand des letzten Renderns)
+  const persistRef = useRef<() => Promise<boolean>>(async () => true);
+
+  // Rückgängig/Wiederholen
+  const [undoStack, setUndoStack] = useState<UndoStack>(EMPTY_STACK);
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+
+  // Durchführung (Vollbild über dem Editor)
+  const [execution, setExecution] = useState<ExecutionRecord | null>(null);
+  const [executionsRev, setExecutionsRev] = useState(0); // lädt die Protokollliste nach dem Schließen neu
+
+  // Schrittbibliothek und Vorlagen
+  const [librarySteps, setLibrarySteps] = useState<LibraryStep[]>([]);
+  const [templates, setTemplates] = useState<ProcessTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+
+  // Suche im geöffneten Prozess
+  const [stepQuery, setStepQuery] = useState("");
+  const [stepImportantOnly, setStepImportantOnly] = useState(false);
+
+  // Offline-Betrieb, Installation, Updates
+  const [pwa, setPwa] = useState(pwaState);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  // Sprache der Oberfläche (Texte kommen aus i18n, der State löst nur das Neuzeichnen aus)
+  const [lang, setLang] = useState<UiLang>(uiLang);
+
+  // QR-Codes: Link-Adresse in PDFs und Etiketten, beim Start ggf. gescannter Link
+  const [qrBaseUrl, setQrBaseUrl] = useState(() => localStorage.getItem(QR_BASE_KEY) ?? appUrl());
+  const [lookupCode] = useState(scannedLink);
 
   // Beim Schrittwechsel Editor puffern/laden
   useEffect(() => {
     if (!process) return;
+    if (skipBufferLoad.current) {
+      skipBufferLoad.current = false;
+      return;
+    }
     const step = process.steps[currentIndex];
     if (step) {
       setPendingPhotos(step.photos || []);
+      setPendingAnnotations(photoAnnotations(step));
       setPendingTexts(step.texts || []);
+      setPendingMeta(stepMeta(step));
       setTextDraft("");
-      setTextImportant(false);
+      setTextSeverity("none");
+      setEditingTextId(null);
     }
   }, [currentIndex, process]);
 
-  function ensureIndices(p: ProcessData) {
-    for (let i = 0; i < p.steps.length; i++) {
-      p.steps[i].index = i + 1;
+  /** Einmal beim Start; über eine Ref, weil die Funktionen bei jedem Rendern neu entstehen */
+  function startup() {
+    hasCamera().then(setCameraAvailable);
+    refreshLibrarySteps();
+    refreshTemplates();
+    resumeAfterUpdate();
+    // Parameter des QR-Links nicht stehen lassen, sonst sucht ein Neuladen erneut
+    if (lookupCode) window.history.replaceState(null, "", window.location.pathname + window.location.hash);
+  }
+  const startupRef = useRef(startup);
+  useEffect(() => startupRef.current(), []);
+
+  useEffect(() => {
+    const onChange = () => setOnline(navigator.onLine);
+    window.addEventListener("online", onChange);
+    window.addEventListener("offline", onChange);
+    const unsubscribe = subscribePwa(() => setPwa(pwaState()));
+    return () => {
+      window.removeEventListener("online", onChange);
+      window.removeEventListener("offline", onChange);
+      unsubscribe();
+    };
+  }, []);
+
+  // Strg+Z / Strg+Umschalt+Z (bzw. Strg+Y); in Eingabefeldern gilt das Rückgängig des Browsers
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Autosave in die Bibliothek (inkl. ungespeicherter Fotos/Texte)
+  useEffect(() => {
+    if (!process || !libraryId) return;
+    const timer = setTimeout(() => persistRef.current(), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [process, libraryId, currentIndex, pendingPhotos, pendingAnnotations, pendingTexts, pendingMeta, finalized]);
+
+  // Durchführung laufend sichern, damit ein Tab-Abbruch an der Linie nichts kostet
+  useEffect(() => {
+    if (!execution) return;
+    const timer = setTimeout(() => saveExecution(execution).catch(() => setAutosaveFailed(true)), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [execution]);
+
+  /** Liefert false, wenn lokales Speichern fehlgeschlagen ist */
+  async function persist() {
+    if (!process || !libraryId) return true;
+    const saved = savedRef.current;
+    if (
+      saved &&
+      saved.process === process &&
+      saved.photos === pendingPhotos &&
+      saved.annotations === pendingAnnotations &&
+      saved.texts === pendingTexts &&
+      saved.meta === pendingMeta
+    )
+      return true;
+    try {
+      await saveRecord({
+        id: libraryId,
+        process,
+        draft: { currentIndex, pendingPhotos, pendingAnnotations, pendingTexts, pendingMeta, finalized },
+        updatedAt: new Date().toISOString(),
+      });
+      savedRef.current = { process, photos: pendingPhotos, annotations: pendingAnnotations, texts: pendingTexts, meta: pendingMeta };
+      setAutosaveFailed(false);
+      return true;
+    } catch {
+      setAutosaveFailed(true);
+      return false;
     }
   }
+  persistRef.current = persist;
 
-  /** Prozess neu anlegen */
-  function startNew() {
-    if (!nameInput.trim()) {
-      alert("Bitte einen Prozessnamen eingeben.");
-      return;
+  function updateQrBaseUrl(url: string) {
+    setQrBaseUrl(url);
+    localStorage.setItem(QR_BASE_KEY, url);
+  }
+
+  /** Oberflächensprache wechseln; Inhalte des Prozesses bleiben unverändert */
+  function changeUiLang(next: UiLang) {
+    saveUiLang(next);
+    setLang(next);
+  }
+
+  /** Neue Version erst nach dem Sichern laden; geöffneter Prozess und laufende Durchführung werden danach wieder geöffnet */
+  async function applyUpdate() {
+    if (textDraft.trim() && !window.confirm(t("update.confirmDraftText"))) return;
+    let saved = await persist();
+    if (execution) {
+      try {
+        await saveExecution(execution);
+      } catch {
+        saved = false;
+      }
     }
-    const p: ProcessData = {
-      name: nameInput.trim(),
-      version: versionInput.trim() || "1.0",
-      createdAt: new Date().toISOString(),
-      steps: [{ index: 1, photos: [], texts: [] }],
-    };
+    if (!saved && !window.confirm(t("update.confirmUnsaved"))) return;
+    if (libraryId) sessionStorage.setItem(RESUME_KEY, JSON.stringify({ id: libraryId, executionId: execution?.id }));
+    activateUpdate();
+  }
+  async function resumeAfterUpdate() {
+    const raw = sessionStorage.getItem(RESUME_KEY);
+    if (!raw) return;
+    sessionStorage.removeItem(RESUME_KEY);
+    try {
+      const { id, executionId } = JSON.parse(raw) as { id: string; executionId?: string };
+      await openFromLibrary(id);
+      if (executionId) {
+        const rec = (await listExecutions(id)).find((r) => r.id === executionId);
+        if (rec) setExecution(rec);
+      }
+    } catch {
+      // dann eben aus der Bibliothek öffnen
+    }
+  }
+
+  /** Prozess (neu angelegt oder geladen) in den Editor übernehmen; `startIndex` z. B. aus einem Suchtreffer */
+  function openInEditor(p: ProcessData, id: string, draft?: EditorDraft, startIndex?: number) {
+    if (startIndex !== undefined && startIndex < p.steps.length && startIndex !== draft?.currentIndex) {
+      // Puffer des Entwurfs in dessen Schritt übernehmen, dann den Zielschritt laden
+      const d = draft;
+      if (d) {
+        p = {
+          ...p,
+          steps: p.steps.map((s, i) =>
+            i === d.currentIndex ? { ...s, photos: d.pendingPhotos, annotations: d.pendingAnnotations, texts: d.pendingTexts, ...d.pendingMeta } : s
+          ),
+        };
+      }
+      const s = p.steps[startIndex];
+      draft = { currentIndex: startIndex, pendingPhotos: s.photos, pendingAnnotations: s.annotations, pendingTexts: s.texts, pendingMeta: stepMeta(s), finalized: d ? d.finalized : false };
+    }
+    const index = draft ? Math.min(draft.currentIndex, p.steps.length - 1) : 0;
+    const photos = draft ? draft.pendingPhotos : p.steps[index]?.photos || [];
+    const annotations = photoAnnotations({ photos, annotations: draft ? draft.pendingAnnotations : p.steps[index]?.annotations });
+    const texts = draft ? draft.pendingTexts : p.steps[index]?.texts || [];
+    const meta = draft?.pendingMeta || (p.steps[index] ? stepMeta(p.steps[index]) : {});
+    skipBufferLoad.current = true;
+    savedRef.current = { process: p, photos, annotations, texts, meta };
     setProcess(p);
-    setCurrentIndex(0);
-    setPendingPhotos([]);
-    setPendingTexts([]);
+    setLibraryId(id);
+    setCurrentIndex(index);
+    setPendingPhotos(photos);
+    setPendingAnnotations(annotations);
+    setPendingTexts(texts);
+    setPendingMeta(meta);
     setTextDraft("");
-    setTextImportant(false);
-    setLastSnapshot(null);
-    setFinalized(false);
+    setTextSeverity("none");
+    setFinalized(draft ? draft.finalized : false);
+    setEditLang(processLanguages(p)[0]);
+    setUndoStack(EMPTY_STACK);
+    fileSavedKey.current = contentKey(p);
+    setChangeNote("");
+    setAutosaveFailed(false);
+    setStepQuery("");
+  }
+
+  /** Prozess aus der Bibliothek öffnen, optional direkt bei einem Schritt */
+  async function openFromLibrary(id: string, stepIndex?: number) {
+    try {
+      const rec = await loadRecord(id);
+      if (!rec) {
+        toast(t("app.processNotFound"));
+        return;
+      }
+      // Einträge aus älteren Ständen ggf. ohne Schritt-IDs bzw. mit `important` statt `severity`
+      const p = rec.process;
+      const draft = rec.draft && { ...rec.draft, pendingTexts: normalizeStep({ texts: rec.draft.pendingTexts }, 0).texts };
+      openInEditor(
+        {
+          ...p,
+          steps: p.steps.map(normalizeStep),
+          history: (p.history || []).map((h) => ({ ...h, steps: h.steps.map(normalizeStep) })),
+        },
+        rec.id,
+        draft,
+        stepIndex
+      );
+    } catch {
+      toast(t("app.openError"));
+    }
+  }
+
+  /** Zurück zur Bibliothek; offene Änderungen vorher sichern */
+  async function closeProcess() {
+    await persist();
+    setProcess(null);
+    setLibraryId(null);
+    savedRef.current = null;
+  }
+
+  /** Prozess neu anlegen */
+  async function startNew() {
+    const err = versionError(versionInput);
+    setNameInputError(!nameInput.trim());
+    setVersionInputError(err);
+    if (!nameInput.trim() || err) return;
+    const template = templates.find((x) => x.id === templateId);
+    if (template && placeholders(template.process).some((n) => !templateValues[n]?.trim())) {
+      if (!window.confirm(t("app.confirmPlaceholders"))) return;
+    }
+    const p: ProcessData = template
+      ? processFromTemplate(template, nameInput.trim(), versionInput.trim(), templateValues)
+      : {
+          id: uuid(),
+          name: nameInput.trim(),
+          version: versionInput.trim(),
+          createdAt: new Date().toISOString(),
+          steps: [newStep(1)],
+        };
+    try {
+      const id = await createRecord(p);
+      openInEditor(p, id);
+      setNameInput("");
+      setTemplateId("");
+      setTemplateValues({});
+    } catch {
+      toast(t("app.createError"));
+    }
+  }
+
+  async function refreshLibrarySteps() {
+    try {
+      setLibrarySteps(await listLibrarySteps());
+    } catch {
+      setLibrarySteps([]);
+    }
+  }
+  async function refreshTemplates() {
+    try {
+      setTemplates(await listTemplates());
+    } catch {
+      setTemplates([]);
+    }
+  }
+  function selectTemplate(id: string) {
+    const tpl = templates.find((x) => x.id === id);
+    setTemplateId(id);
+    setTemplateValues({});
+    if (tpl && !nameInput.trim()) setNameInput(tpl.process.name);
+  }
+  async function removeTemplate(tpl: ProcessTemplate) {
+    if (!window.confirm(t("app.confirmDeleteTemplate", { name: tpl.name }))) return;
+    try {
+      await deleteTemplate(tpl.id);
+      setTemplateId("");
+    } catch {
+      toast(t("app.templateDeleteError"));
+    }
+    await refreshTemplates();
+  }
+
+  /** Rückgängig/Wiederholen: Editor-Zustand vor jeder Änderung merken */
+  function snapshot(): EditorSnapshot | null {
+    if (!process) return null;
+    return { process, currentIndex, pendingPhotos, pendingAnnotations, pendingTexts, pendingMeta, finalized };
   }
+  function track(label: string, key?: string, before = snapshot()) {
+    if (before) setUndoStack((st) => record(st, label, before, key));
+  }
+  function restoreSnapshot(s: EditorSnapshot) {
+    // Puffer kommen aus dem Snapshot, nicht aus dem Schrittwechsel-Effekt
+    if (s.process !== process || s.currentIndex !== currentIndex) skipBufferLoad.current = true;
+    setProcess(s.process);
+    setCurrentIndex(s.currentIndex);
+    setPendingPhotos(s.pendingPhotos);
+    setPendingAnnotations(s.pendingAnnotations);
+    setPendingTexts(s.pendingTexts);
+    setPendingMeta(s.pendingMeta);
+    setFinalized(s.finalized);
+    setEditingTextId(null);
+  }
+  function undoEdit() {
+    const current = snapshot();
+    const r = current && undo(undoStack, current);
+    if (!r) return;
+    setUndoStack(r.stack);
+    restoreSnapshot(r.snapshot);
+  }
+  function redoEdit() {
+    const current = snapshot();
+    const r = current && redo(undoStack, current);
+    if (!r) return;
+    setUndoStack(r.stack);
+    restoreSnapshot(r.snapshot);
+  }
+  shortcutRef.current = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || !process || execution) return;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      undoEdit();
+    } else if ((key === "z" && e.shiftKey) || key === "y") {
+      e.preventDefault();
+      redoEdit();
+    }
+  };
 
-  /** Änderungen am aktuellen Schritt in den Prozess schreiben (ohne Versionierung) */
-  function commitStepEdits(mutator?: (p: ProcessData) => void) {
+  /** Änderungen am aktuellen Schritt in den Prozess schreiben (ohne Versionierung);
+   *  touchContent=false für reine Darstellungsänderungen, die die Finalisierung nicht aufheben */
+  function commitStepEdits(mutator?: (p: ProcessData) => void, touchContent = true) {
     if (!process) return;
     const draft: ProcessData = JSON.parse(JSON.stringify(process));
     const step = draft.steps[currentIndex];
     if (step) {
       step.photos = pendingPhotos;
+      step.annotations = pendingAnnotations;
       step.texts = pendingTexts;
+      Object.assign(step, pendingMeta);
     }
     if (mutator) mutator(draft);
     ensureIndices(draft);
     setProcess(draft);
-    setFinalized(false);
+    if (touchContent) setFinalized(false);
+  }
+
+  /** PDF-Layout wird mit dem Prozess gespeichert */
+  function updateLayout(patch: Partial<PdfLayout>) {
+    track(t("undo.layout"), `layout:${Object.keys(patch).join()}`);
+    commitStepEdits((draft) => {
+      draft.layout = normalizeLayout({ ...draft.layout, ...patch });
+    }, false);
   }
 
   /** Text hinzufügen/entfernen/toggle wichtig */
   function addText() {
     const c = textDraft.trim();
     if (!c) return;
-    const item: TextItem = { id: uid(), content: c, important: textImportant };
+    const item: TextItem = { id: uid(), content: c, severity: textSeverity };
+    track(t("undo.textAdded"));
     setPendingTexts((prev) => [...prev, item]);
     setTextDraft("");
-    setTextImportant(false);
+    setTextSeverity("none");
   }
   function removeText(id: string) {
-    setPendingTexts((prev) => prev.filter((t) => t.id !== id));
+    track(t("undo.textRemoved"));
+    setPendingTexts((prev) => prev.filter((x) => x.id !== id));
+  }
+  function setSeverity(id: string, severity: Severity) {
+    track(t("undo.severity"));
+    setPendingTexts((prev) => prev.map((x) => (x.id === id ? { ...x, severity } : x)));
+  }
+
+  /** Titel, Dauer, Hilfsmittel des aktuellen Schritts */
+  function updateMeta(patch: StepMeta, label = t("undo.meta")) {
+    // Tippen in Titel/Dauer zusammenfassen, Hilfsmittel einzeln
+    track(label, patch.resources ? undefined : `meta:${Object.keys(patch).join()}`);
+    setPendingMeta((prev) => ({ ...prev, ...patch }));
+  }
+  function addResource() {
+    const name = resourceDraft.trim();
+    if (!name) return;
+    updateMeta({ resources: [...(pendingMeta.resources || []), { kind: resourceKind, name }] }, t("undo.resourceAdded"));
+    setResourceDraft("");
+  }
+  function removeResource(i: number) {
+    updateMeta({ resources: (pendingMeta.resources || []).filter((_, idx) => idx !== i) }, t("undo.resourceRemoved"));
+  }
+
+  /** Übersetzungen im aktuellen Schritt; leere Eingabe entfernt die Übersetzung */
+  function setTextTranslation(id: string, value: string) {
+    track(t("undo.translation"), `translation:${id}:${editLang}`);
+    setPendingTexts((prev) => prev.map((x) => (x.id === id ? { ...x, translations: withTranslation(x.translations, editLang, value) } : x)));
   }
-  function toggleImportant(id: string) {
-    setPendingTexts((prev) => prev.map((t) => (t.id === id ? { ...t, important: !t.important } : t)));
+  function updateLanguages(patch: Pick<ProcessData, "languages" | "nameTranslations">) {
+    if (patch.languages) track(t("undo.languages"));
+    else track(t("undo.translation"), "translation:name");
+    commitStepEdits((draft) => {
+      Object.assign(draft, patch);
+    });
+  }
+  function jumpToTranslation(stepIndex: number, lang: string) {
+    jumpToStep(stepIndex);
+    setEditLang(lang);
+  }
+
+  /** Text bearbeiten/umsortieren – die ID bleibt dabei erhalten */
+  function startEditText(text: TextItem) {
+    setEditingTextId(text.id);
+    setEditingContent(text.content);
+  }
+  function saveEditText() {
+    const c = editingContent.trim();
+    if (!c) return;
+    track(t("undo.textChanged"));
+    setPendingTexts((prev) => prev.map((x) => (x.id === editingTextId ? { ...x, content: c } : x)));
+    setEditingTextId(null);
+  }
+  function reorderText(from: number, to: number) {
+    if (to < 0 || to >= pendingTexts.length) return;
+    track(t("undo.textsReordered"));
+    setPendingTexts((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }
+  /** Text ans Ende eines anderen Schritts verschieben */
+  function moveTextToStep(id: string, target: number) {
+    if (!process || target === currentIndex) return;
+    track(t("undo.textMoved"));
+    commitStepEdits((draft) => {
+      const texts = draft.steps[currentIndex].texts;
+      const i = texts.findIndex((x) => x.id === id);
+      if (i < 0) return;
+      const [moved] = texts.splice(i, 1);
+      draft.steps[target].texts.push(moved);
+    });
   }
 
   /** Fotos laden/entfernen */
-  async function onPhotoUpload(files: FileList | null) {
-    if (!files) return;
-    const readers = Array.from(files).map(
-      (f) =>
-        new Promise<string>((resolve, reject) => {
-          const r = new FileReader();
-          r.onload = () => resolve(r.result as string);
-          r.onerror = reject;
-          r.readAsDataURL(f);
-        })
-    );
-    const urls = await Promise.all(readers);
+  async function onPhotoUpload(input: HTMLInputElement) {
+    const files = Array.from(input.files || []);
+    if (files.length === 0) return;
+    const before = snapshot(); // Stand vor dem (asynchronen) Einlesen
+    setProcessingPhotos(true);
+    const urls: string[] = [];
+    let failed = 0;
+    // nacheinander, damit große Handyfotos nicht gleichzeitig im Speicher liegen
+    for (const f of files) {
+      try {
+        urls.push(await processPhoto(f, imageSettings));
+      } catch {
+        failed++;
+      }
+    }
+    addPhotos(urls, before);
+    setProcessingPhotos(false);
+    input.value = "";
+    if (failed) toast(t("app.photosFailed", { count: failed }));
+  }
+  function addPhotos(urls: string[], before = snapshot()) {
+    if (urls.length === 0) return;
+    track(t(urls.length > 1 ? "undo.photosAdded" : "undo.photoAdded"), undefined, before);
     setPendingPhotos((prev) => [...prev, ...urls]);
+    setPendingAnnotations((prev) => [...prev, ...urls.map(() => [])]);
   }
   function removePhotoAt(i: number) {
+    track(t("undo.photoRemoved"));
     setPendingPhotos((prev) => prev.filter((_, idx) => idx !== i));
+    setPendingAnnotations((prev) => prev.filter((_, idx) => idx !== i));
+  }
+  /** Gedrehtes/zugeschnittenes Foto übernehmen; Markierungen passen danach nicht mehr */
+  function replacePhotoAt(i: number, dataUrl: string) {
+    track(t("undo.photoEdited"));
+    setPendingPhotos((prev) => prev.map((p, idx) => (idx === i ? dataUrl : p)));
+    setPendingAnnotations((prev) => prev.map((a, idx) => (idx === i ? [] : a)));
+  }
+  function setAnnotationsAt(i: number, annotations: Annotation[]) {
+    track(t("undo.annotations"));
+    setPendingAnnotations((prev) => prev.map((a, idx) => (idx === i ? annotations : a)));
+  }
+  function updateImageSettings(patch: Partial<ImageSettings>) {
+    const next = { ...imageSettings, ...patch };
+    setImageSettings(next);
+    saveImageSettings(next);
   }
 
   function canFinishStep() {
@@ -209,36 +621,129 @@ export default function App() {
   function finishStep() {
     if (!process) return;
     if (!canFinishStep()) {
-      alert("Jeder Schritt braucht mindestens ein Foto und einen Text.");
+      toast(t("app.stepIncomplete"));
       return;
     }
+    track(t("undo.stepFinished"));
     commitStepEdits((draft) => {
       draft.steps[currentIndex].done = true;
-      draft.steps.push({ index: draft.steps.length + 1, photos: [], texts: [] });
+      // mitten im Prozess zum nächsten vorhandenen Schritt, nur am Ende einen neuen anlegen
+      if (currentIndex === draft.steps.length - 1) draft.steps.push(newStep(draft.steps.length + 1));
     });
     setCurrentIndex((i) => i + 1);
     setPendingPhotos([]);
+    setPendingAnnotations([]);
     setPendingTexts([]);
+    setPendingMeta({});
     setTextDraft("");
-    setTextImportant(false);
+    setTextSeverity("none");
   }
 
   /** Schritt zurück */
   function backStep() {
     if (currentIndex === 0) return;
+    track(t("undo.stepBack"));
     commitStepEdits();
     setCurrentIndex((i) => i - 1);
   }
 
-  /** Prozess beenden → Version nur hier erhöhen; Export erst danach erlaubt */
+  /** Navigator: springen, verschieben, einfügen, löschen */
+  function jumpToStep(i: number) {
+    if (!process || i === currentIndex) return;
+    track(t("undo.stepSwitched"));
+    commitStepEdits();
+    setCurrentIndex(i);
+  }
+  function moveStep(from: number, to: number) {
+    if (!process || to < 0 || to >= process.steps.length) return;
+    // aktueller Schritt bleibt ausgewählt, auch wenn er verschoben wird
+    const currentId = process.steps[currentIndex]?.id;
+    let next = currentIndex;
+    track(t("undo.stepMoved"));
+    commitStepEdits((draft) => {
+      const [moved] = draft.steps.splice(from, 1);
+      draft.steps.splice(to, 0, moved);
+      next = Math.max(draft.steps.findIndex((s) => s.id === currentId), 0);
+    });
+    setCurrentIndex(next);
+  }
+  function insertStep(at: number) {
+    if (!process) return;
+    track(t("undo.stepInserted"));
+    commitStepEdits((draft) => {
+      draft.steps.splice(at, 0, newStep(at + 1));
+    });
+    setCurrentIndex(at);
+  }
+  /** Bibliotheksschritt hinter dem aktuellen einfügen; ein leerer aktueller Schritt wird ersetzt */
+  function insertLibraryStep(ls: LibraryStep) {
+    if (!process) return;
+    const replace = pendingPhotos.length === 0 && pendingTexts.length === 0;
+    const at = replace ? currentIndex : currentIndex + 1;
+    track(t("undo.libraryStepInserted"));
+    commitStepEdits((draft) => {
+      draft.steps.splice(at, replace ? 1 : 0, stepFromLibrary(ls, at + 1));
+    });
+    if (!replace) setCurrentIndex(at);
+  }
+  /** Aktuellen Schritt mit einem Bibliotheksschritt verknüpfen (nach Speichern/Aktualisieren in der Bibliothek) */
+  function linkCurrentStep(origin: NonNullable<StepData["origin"]>) {
+    commitStepEdits((draft) => {
+      draft.steps[currentIndex].origin = origin;
+    }, false);
+  }
+  /** Veraltete Kopie durch die aktuelle Revision ersetzen; Schritt-ID bleibt für Verlauf und Vergleich */
+  function updateFromLibrary(ls: LibraryStep) {
+    if (!process) return;
+    if (!window.confirm(t("app.confirmReplaceStep", { revision: ls.revision, name: ls.name }))) return;
+    track(t("undo.libraryStepUpdated"));
+    commitStepEdits((draft) => {
+      draft.steps[currentIndex] = stepFromLibrary(ls, currentIndex + 1, draft.steps[currentIndex].id);
+    });
+  }
+  async function saveAsTemplate() {
+    if (!process) return;
+    const name = prompt(t("app.templateNamePrompt"), process.name);
+    if (name === null) return;
+    if (!name.trim()) {
+      toast(t("app.templateNameMissing"));
+      return;
+    }
+    try {
+      await saveTemplate(templateFromProcess({ ...process, steps: liveSteps }, name.trim()));
+      await refreshTemplates();
+    } catch {
+      toast(t("app.templateSaveError"));
+    }
+  }
+
+  function deleteStep(i: number) {
+    if (!process) return;
+    track(t("undo.stepDeleted"));
+    commitStepEdits((draft) => {
+      draft.steps.splice(i, 1);
+      if (draft.steps.length === 0) draft.steps.push(newStep(1));
+    });
+    if (i < currentIndex) setCurrentIndex(currentIndex - 1);
+    else if (i === currentIndex) setCurrentIndex(Math.max(Math.min(i, process.steps.length - 2), 0));
+  }
+
+  /** Zur Prüfung einreichen → Version nur hier erhöhen; freigegebene PDFs erst nach Prüfung und Freigabe */
   function finishProcess() {
     if (!process) return;
+    // Ohne Autor greift das Vier-Augen-Prinzip bei der Prüfung nicht
+    if (!author.trim()) {
+      toast(t("app.authorMissing"));
+      return;
+    }
     // Entwurf mit übernommenen Pufferwerten
     const draft: ProcessData = JSON.parse(JSON.stringify(process));
     const step = draft.steps[currentIndex];
     if (step) {
       step.photos = pendingPhotos;
+      step.annotations = pendingAnnotations;
       step.texts = pendingTexts;
+      Object.assign(step, pendingMeta);
     }
     // letzen leeren Schritt abschneiden
     if (draft.steps.length > 0) {
@@ -247,340 +752,697 @@ export default function App() {
     }
     ensureIndices(draft);
 
-    // Snapshots ohne volatile Felder vergleichen
-    const snap = JSON.stringify({ ...draft, createdAt: "X", version: "X" });
-    if (lastSnapshot === null || lastSnapshot !== snap) {
-      draft.version = bumpVersion(draft.version);
-    }
+    const result = submitVersion(draft, { bump: bumpKind, author, note: changeNote });
+    if (result !== "unchanged") setChangeNote("");
+    if (result === "created") setBumpKind("minor");
+    localStorage.setItem(AUTHOR_KEY, author.trim());
     setProcess(draft);
-    setLastSnapshot(snap);
     setFinalized(true);
+    // Freigabe ist ein fester Punkt: nichts davor darf die neue Version wieder entfernen
+    setUndoStack(EMPTY_STACK);
+  }
+
+  /** Stand einer älteren Version als neuen Arbeitsstand übernehmen (Versionsnummer bleibt bis zur Finalisierung) */
+  function restoreVersion(snap: VersionSnapshot) {
+    if (!process) return;
+    track(t("undo.versionRestored"));
+    const draft: ProcessData = JSON.parse(JSON.stringify(process));
+    draft.name = snap.name;
+    if (snap.nameTranslations) draft.nameTranslations = { ...snap.nameTranslations };
+    else delete draft.nameTranslations;
+    draft.steps = JSON.parse(JSON.stringify(snap.steps));
+    if (draft.steps.length === 0) draft.steps.push(newStep(1));
+    ensureIndices(draft);
+    setProcess(draft);
+    setCurrentIndex(0);
+    setFinalized(false);
   }
 
   /** Speichern/Laden */
   function saveProcess() {
     if (!process) return;
-    const blob = new Blob([JSON.stringify(process, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${process.name.replace(/\s+/g, "_")}_Prozess.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    const blob = new Blob([JSON.stringify(serializeProcess(process), null, 2)], { type: "application/json" });
+    downloadBlob(blob, `${baseFileName(process)}_Prozess.json`);
+    fileSavedKey.current = contentKey(process);
   }
-  async function loadProcess(file: File | null) {
-    if (!file) return;
+  /** Weitere Formate: ZIP-Paket (verlustfrei), HTML und Markdown (zum Lesen, in der Bearbeitungssprache) */
+  async function exportAs(format: string) {
+    if (!process) return;
+    const p = { ...process, steps: liveSteps };
     try {
-      const txt = await file.text();
-      const obj = JSON.parse(txt) as ProcessData;
-      if (!obj || !obj.name || !Array.isArray(obj.steps)) {
-        alert("Ungültige Datei.");
-        return;
+      if (format === "zip") {
+        downloadBlob(await exportBundle(p), `${baseFileName(p)}_Prozess.zip`);
+        fileSavedKey.current = contentKey(p);
       }
-      const normalized: ProcessData = {
-        name: String(obj.name),
-        version: /^\d+\.\d+$/.test(obj.version) ? obj.version : "1.0",
-        createdAt: obj.createdAt || new Date().toISOString(),
-        steps: (obj.steps || []).map((s, i) => ({
-          index: typeof s.index === "number" ? s.index : i + 1,
-          photos: Array.isArray(s.photos) ? s.photos.map(String) : [],
-          texts: Array.isArray(s.texts)
-            ? s.texts.map((t: any) => ({ id: String(t?.id || uid()), content: String(t?.content || ""), important: !!t?.important }))
-            : [],
-          done: !!s.done,
-        })),
-      };
-      ensureIndices(normalized);
-      setProcess(normalized);
-      setCurrentIndex(0);
-      setPendingPhotos(normalized.steps[0]?.photos || []);
-      setPendingTexts(normalized.steps[0]?.texts || []);
-      setTextDraft("");
-      setTextImportant(false);
-      setLastSnapshot(null);
-      setFinalized(false);
+      if (format === "html") downloadBlob(await exportHtml(p, translating ? editLang : primaryLang), `${baseFileName(p)}.html`);
+      if (format === "md") downloadBlob(await exportMarkdown(p, translating ? editLang : primaryLang), `${baseFileName(p)}_Markdown.zip`);
     } catch {
-      alert("Konnte die Datei nicht laden.");
+      toast(t("app.exportError"));
+    }
+  }
+  /** Vor dem Laden nachfragen, wenn der offene Prozess seit dem letzten Speichern geändert wurde */
+  function chooseFile() {
+    if (process && contentKey({ ...process, steps: liveSteps }) !== fileSavedKey.current) {
+      if (!window.confirm(t("app.confirmLoadUnsaved"))) return;
+    }
+    loadRef.current?.click();
+  }
+  async function loadProcess(file: File | null) {
+    if (!file) return;
+    let result: ImportResult;
+    try {
+      // ZIP-Pakete enthalten dasselbe JSON, nur mit Bildern als Einzeldateien
+      const isZip = /\.zip$/i.test(file.name) || file.type.includes("zip");
+      result = importProcess(isZip ? await readBundle(file) : JSON.parse(await file.text()));
+    } catch (e) {
+      const message = e instanceof SyntaxError ? t("app.invalidJson") : e instanceof Error ? e.message : t("app.unknownError");
+      result = { process: null, fromVersion: 0, migrations: [], issues: [{ level: "error", path: t("schema.path.file"), message }] };
     } finally {
       if (loadRef.current) loadRef.current.value = "";
     }
+    setImportPreview({ fileName: file.name, result });
+  }
+  /** Nach Bestätigung der Vorschau: geladene Dateien landen als eigener Eintrag in der Bibliothek */
+  async function confirmImport() {
+    const p = importPreview?.result.process;
+    if (!p) return;
+    try {
+      await persist();
+      const id = await createRecord(p);
+      openInEditor(p, id);
+      setImportPreview(null);
+    } catch {
+      toast(t("app.createError"));
+    }
   }
 
-  /** PDF-Export (nur nach Finalisierung) */
+  /** Prüfen/Freigeben/Ablehnen der letzten Version; wie die Einreichung ein fester Punkt für Rückgängig */
+  function applyApprovalAction(action: ApprovalAction, sig: Signature) {
+    commitStepEdits((draft) => {
+      draft.history = applyApproval(draft.history || [], action, sig);
+    }, false);
+    setUndoStack(EMPTY_STACK);
+  }
+
+  /** PDF-Export; ohne Freigabe des aktuellen Stands mit Wasserzeichen „ENTWURF“ */
   async function exportPDF() {
     if (!process) return;
-    if (!finalized) {
-      alert('Bitte zuerst "Prozess beenden" drücken, dann PDF exportieren.');
-      return;
-    }
+    const released = releasedVersion(process, finalized);
+    const doc: ProcessData = released ? process : { ...process, steps: liveSteps };
 
-    const pdf = new jsPDF({ orientation: "portrait", unit: "pt", format: "a4" });
-    const pageW = pdf.internal.pageSize.getWidth();
-    const pageH = pdf.internal.pageSize.getHeight();
-    const margin = 36;
-    const contentW = pageW - margin * 2;
-
-    // DIN A6 ungefähr in pt (Portrait)
-    const A6W = 297.64;
-    const A6H = 420.94;
-    const maxImgW = Math.min(A6W, contentW);
-    const maxImgH = Math.min(A6H, pageH - margin * 2);
-
-    let y = margin;
-
-    pdf.setFont("helvetica", "bold");
-    pdf.setFontSize(16);
-    pdf.text(process.name, margin, y);
-    y += 18;
-
-    pdf.setFont("helvetica", "normal");
-    pdf.setFontSize(10);
-    const created = new Date(process.createdAt).toLocaleString();
-    pdf.text(`Erstellt am: ${created}   |   Version: ${process.version}`, margin, y);
-    y += 14;
-
-    pdf.setDrawColor(200);
-    pdf.line(margin, y, pageW - margin, y);
-    y += 10;
-
-    function addPage() {
-      pdf.addPage();
-      y = margin;
-    }
-    function spaceLeft() {
-      return pageH - margin - y;
+    // Mehrsprachig: je Sprache ein PDF oder Haupt- und Zweitsprache nebeneinander
+    const runs = pdfRuns(process, released);
+    const missing = missingForRuns(doc, runs);
+    if (missing.length > 0) {
+      const langs = Array.from(new Set(missing.map((m) => languageLabel(m.lang)))).join(", ");
+      if (!window.confirm(t("app.confirmMissingTranslations", { count: missing.length, langs, primary: languageLabel(processLanguages(process)[0]) }))) return;
     }
-    function ensureSpace(needed: number) {
-      if (spaceLeft() < needed) addPage();
-    }
-    function loadImage(dataUrl: string) {
-      return new Promise<HTMLImageElement>((res, rej) => {
-        const im = new Image();
-        im.onload = () => res(im);
-        im.onerror = rej;
-        im.src = dataUrl;
-      });
-    }
-    function scaleDims(img: HTMLImageElement) {
-      const s = Math.min(maxImgW / img.width, maxImgH / img.height, 1);
-      return { w: img.width * s, h: img.height * s };
-    }
-
-    // Schritte
-    for (let s = 0; s < process.steps.length; s++) {
-      const step = process.steps[s];
-      if (step.photos.length === 0 && step.texts.length === 0) continue;
-
-      // Reserve für Überschrift + (falls vorhanden) erstes Bild
-      let reserve = 20; // heading
-      if (step.photos.length > 0) {
-        try {
-          const img0 = await loadImage(step.photos[0]);
-          const d0 = scaleDims(img0);
-          reserve += d0.h + 12;
-        } catch {
-          reserve += 120;
-        }
-      } else {
-        reserve += 40;
-      }
-      if (spaceLeft() < reserve) addPage();
-
-      // Überschrift
-      pdf.setFont("helvetica", "bold");
-      pdf.setFontSize(13);
-      pdf.text(`Schritt ${step.index}`, margin, y);
-      y += 20;
-
-      // Bilder
-      for (let p = 0; p < step.photos.length; p++) {
-        const dataUrl = step.photos[p];
-        try {
-          const im = await loadImage(dataUrl);
-          const d = scaleDims(im);
-          ensureSpace(d.h); // nie splitten
-          pdf.addImage(dataUrl, "JPEG", margin, y, d.w, d.h, undefined, "FAST");
-          y += d.h + 12; // mehr Platz unter dem Bild
-        } catch {
-          // Bild konnte nicht geladen werden -> überspringen
-        }
-      }
 
-      // Texte (1.1, 1.2, …) – „wichtige“ rot + fett
-      pdf.setFont("helvetica", "normal");
-      pdf.setFontSize(11);
-      for (let i = 0; i < step.texts.length; i++) {
-        const t = step.texts[i];
-        const label = `${step.index}.${i + 1} `;
-        const full = label + t.content;
-
-        const lines = pdf.splitTextToSize(full, contentW);
-        // Platz für alle Zeilen + kleinen Abstand
-        let blockHeight = lines.length * 14 + 6;
-        ensureSpace(blockHeight);
-
-        if (t.important) {
-          pdf.setTextColor(200, 0, 0);
-          pdf.setFont("helvetica", "bold");
-        } else {
-          pdf.setTextColor(0, 0, 0);
-          pdf.setFont("helvetica", "normal");
-        }
-        for (let li = 0; li < lines.length; li++) {
-          pdf.text(lines[li], margin, y);
-          y += 14;
-        }
-        y += 6;
+    let fonts: PdfFonts;
+    try {
+      fonts = await loadPdfFonts();
+    } catch {
+      toast(t("app.fontError"));
+      return;
+    }
+    try {
+      for (const options of runs) {
+        const pdf = await renderProcessPdf(doc, pdfImage, fonts, { ...options, qrBaseUrl });
+        pdf.save(pdfFileName(doc, options));
       }
-
-      y += 6; // kleiner Abstand am Schrittende
+    } catch {
+      toast(t("app.pdfError"));
     }
+  }
 
-    // Fußzeile mit Seitenzahlen, Datum, Version
-    const total = pdf.getNumberOfPages();
-    for (let p = 1; p <= total; p++) {
-      pdf.setPage(p);
-      pdf.setFont("helvetica", "normal");
-      pdf.setFontSize(9);
-      const left = `Erstellt am: ${created}`;
-      const center = `Version: ${process.version}`;
-      const right = `Seite ${p} von ${total}`;
-      pdf.text(left, margin, pdf.internal.pageSize.getHeight() - 16);
-      pdf.text(center, pageW / 2, pdf.internal.pageSize.getHeight() - 16, { align: "center" });
-      pdf.text(right, pageW - margin, pdf.internal.pageSize.getHeight() - 16, { align: "right" });
+  /** Durchführung der freigegebenen Version starten */
+  function beginExecution(operator: string, lang: string) {
+    if (!process || !libraryId) return;
+    if (!operator) return;
+    const rec = startExecution(process, libraryId, operator, lang);
+    if (!rec) return;
+    localStorage.setItem(OPERATOR_KEY, operator);
+    setExecution(rec);
+  }
+  async function closeExecution() {
+    if (!execution) return;
+    try {
+      await saveExecution(execution);
+    } catch {
+      toast(t("app.executionSaveError"));
+      return;
+    }
+    setExecution(null);
+    setExecutionsRev((n) => n + 1);
+  }
+  async function exportExecutionPdf(rec: ExecutionRecord) {
+    let fonts: PdfFonts;
+    try {
+      fonts = await loadPdfFonts();
+    } catch {
+      toast(t("app.fontError"));
+      return;
+    }
+    try {
+      renderExecutionPdf(rec, fonts).save(executionFileName(rec));
+    } catch {
+      toast(t("app.pdfError"));
     }
-
-    const file = `${process.name.replace(/\s+/g, "_")}_Prozess.pdf`;
-    pdf.save(file);
   }
 
   /** Render */
   const stepNo = process ? (process.steps[currentIndex]?.index ?? 1) : 1;
+  // Schritte inkl. ungespeicherter Änderungen am aktuellen Schritt
+  const liveSteps = process ? process.steps.map((s, i) => (i === currentIndex ? { ...s, photos: pendingPhotos, annotations: pendingAnnotations, texts: pendingTexts, ...pendingMeta } : s)) : [];
+  const languages = process ? processLanguages(process) : ["de"];
+  const primaryLang = languages[0];
+  const translating = editLang !== primaryLang && languages.includes(editLang);
+  const origin = liveSteps[currentIndex]?.origin;
+  const outdatedOrigin = origin && librarySteps.find((ls) => ls.id === origin.libraryId && ls.revision > origin.revision);
+  const stepTerms = searchTerms(stepQuery);
+  const stepHits = process && (stepTerms.length > 0 || stepImportantOnly) ? searchOutline(outlineOf({ ...process, steps: liveSteps }), stepTerms, stepImportantOnly) : null;
 
   return (
     <div style={{ minHeight: "100vh", background: "#f9fafb", padding: 24, fontFamily: "sans-serif" }}>
       <div style={{ maxWidth: 1100, margin: "0 auto" }}>
         <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 16 }}>
-          <h1 style={{ fontSize: 22, fontWeight: 700 }}>Prozess-Dokumentation</h1>
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <h1 style={{ fontSize: 22, fontWeight: 700 }}>{t("app.title")}</h1>
+            {!online && (
+              <span
+                style={{ fontSize: 12, padding: "2px 8px", borderRadius: 999, background: "#fef3c7", color: "#92400e" }}
+                title={t("app.offlineHint")}
+              >
+                {t("app.offline")}
+              </span>
+            )}
+          </div>
           <div style={{ display: "flex", gap: 8 }}>
-            <Button variant="outline" onClick={saveProcess} disabled={!process}>Speichern</Button>
-            <Button variant="outline" onClick={() => loadRef.current?.click()}>Laden</Button>
-            <input ref={loadRef} type="file" accept="application/json" style={{ display: "none" }} onChange={(e) => loadProcess(e.target.files?.[0] || null)} />
-            <Button variant="outline" onClick={exportPDF} disabled={!finalized}>PDF exportieren</Button>
+            {pwa.installable && <Button variant="outline" onClick={() => promptInstall()}>{t("app.install")}</Button>}
+            <Button
+              variant="outline"
+              onClick={undoEdit}
+              disabled={!process || undoStack.past.length === 0}
+              title={undoStack.past.length ? t("app.undoLabel", { label: undoStack.past[undoStack.past.length - 1].label }) : t("app.undo")}
+            >
+              ↶
+            </Button>
+            <Button
+              variant="outline"
+              onClick={redoEdit}
+              disabled={!process || undoStack.future.length === 0}
+              title={undoStack.future.length ? t("app.redoLabel", { label: undoStack.future[undoStack.future.length - 1].label }) : t("app.redo")}
+            >
+              ↷
+            </Button>
+            <Button variant="outline" onClick={closeProcess} disabled={!process}>{t("library.title")}</Button>
+            <Button variant="outline" onClick={saveProcess} disabled={!process}>{t("app.save")}</Button>
+            <select
+              value=""
+              onChange={(e) => exportAs(e.target.value)}
+              disabled={!process}
+              style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14, background: "#fff" }}
+            >
+              <option value="" disabled>{t("app.exportAs")}</option>
+              <option value="zip">{t("app.export.zip")}</option>
+              <option value="html">{t("app.export.html")}</option>
+              <option value="md">{t("app.export.md")}</option>
+            </select>
+            <Button variant="outline" onClick={chooseFile}>{t("app.load")}</Button>
+            <input ref={loadRef} type="file" accept="application/json,.json,application/zip,.zip" style={{ display: "none" }} onChange={(e) => loadProcess(e.target.files?.[0] || null)} />
+            <Button variant="outline" onClick={exportPDF} disabled={!process}>{t("app.exportPdf")}</Button>
+            <select
+              value={lang}
+              onChange={(e) => changeUiLang(e.target.value as UiLang)}
+              title={t("common.language")}
+              style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14, background: "#fff" }}
+            >
+              {UI_LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>{l.label}</option>
+              ))}
+            </select>
           </div>
         </header>
 
+        {pwa.updateReady && (
+          <div style={{ marginBottom: 16, padding: "8px 12px", borderRadius: 12, background: "#eff6ff", border: "1px solid #bfdbfe", display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, fontSize: 14 }}>
+            <span>{t("app.updateReady")}</span>
+            <Button onClick={applyUpdate}>{t("app.updateNow")}</Button>
+          </div>
+        )}
+
+        {execution && process && (
+          <ExecutionView
+            record={execution}
+            steps={executionSteps(process, execution)}
+            imageSettings={imageSettings}
+            onChange={setExecution}
+            onExportPdf={exportExecutionPdf}
+            onClose={closeExecution}
+          />
+        )}
+
+        {importPreview && (
+          <ImportPreview fileName={importPreview.fileName} result={importPreview.result} onConfirm={confirmImport} onCancel={() => setImportPreview(null)} />
+        )}
+
         {!process ? (
-          <div style={{ maxWidth: 520, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
-            <label style={{ fontWeight: 600 }}>Prozessname (erster Schritt)</label>
-            <Input value={nameInput} onChange={(e) => setNameInput(e.target.value)} placeholder="z. B. Wareneingang prüfen" />
-            <div style={{ height: 8 }} />
-            <label style={{ fontWeight: 600 }}>Version</label>
-            <Input value={versionInput} onChange={(e) => setVersionInput(e.target.value)} placeholder="z. B. 1.0" />
-            <div style={{ height: 12 }} />
-            <Button onClick={startNew}>Prozess anlegen</Button>
+          <div style={{ display: "grid", gap: 16 }}>
+            <div style={{ maxWidth: 520, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+              <label style={{ fontWeight: 600 }}>{t("app.processName")}</label>
+              <Input
+                value={nameInput}
+                onChange={(e) => {
+                  setNameInput(e.target.value);
+                  setNameInputError(false);
+                }}
+                placeholder={t("app.processNamePlaceholder")}
+                style={nameInputError ? { boxShadow: "0 0 0 2px #fca5a5" } : undefined}
+              />
+              {nameInputError && <div style={{ marginTop: 4, fontSize: 12, color: "#b91c1c" }}>{t("process.nameMissing")}</div>}
+              <div style={{ height: 8 }} />
+              <label style={{ fontWeight: 600 }}>{t("app.version")}</label>
+              <Input
+                value={versionInput}
+                onChange={(e) => {
+                  setVersionInput(e.target.value);
+                  setVersionInputError(null);
+                }}
+                onBlur={() => setVersionInputError(versionError(versionInput))}
+                placeholder={t("app.versionPlaceholder")}
+                style={versionInputError ? { boxShadow: "0 0 0 2px #fca5a5" } : undefined}
+              />
+              {versionInputError && <div style={{ marginTop: 4, fontSize: 12, color: "#b91c1c" }}>{versionInputError}</div>}
+              <div style={{ height: 12 }} />
+              <TemplatePicker
+                templates={templates}
+                selectedId={templateId}
+                values={templateValues}
+                onSelect={selectTemplate}
+                onValue={(name, value) => setTemplateValues((prev) => ({ ...prev, [name]: value }))}
+                onDelete={removeTemplate}
+              />
+              {templates.length > 0 && <div style={{ height: 12 }} />}
+              <Button onClick={startNew}>{t("app.create")}</Button>
+            </div>
+            <Lookup initialCode={lookupCode} baseUrl={qrBaseUrl} onBaseUrl={updateQrBaseUrl} onOpen={openFromLibrary} />
+            <Library onOpen={openFromLibrary} />
           </div>
         ) : (
           <div style={{ display: "grid", gridTemplateColumns: "1fr 360px", gap: 16 }}>
             <div style={{ background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
-                <h2 style={{ margin: 0, fontSize: 18 }}>Schritt {stepNo}</h2>
+                <h2 style={{ margin: 0, fontSize: 18 }}>{stepHeading({ index: stepNo, title: pendingMeta.title })}</h2>
                 <div style={{ display: "flex", gap: 8 }}>
-                  <Button variant="outline" onClick={backStep} disabled={currentIndex === 0}>Schritt zurück</Button>
-                  <Button onClick={finishStep} disabled={!canFinishStep()}>Schritt beenden</Button>
+                  {languages.length > 1 && (
+                    <select value={translating ? editLang : primaryLang} onChange={(e) => setEditLang(e.target.value)} title={t("app.editLanguage")} style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}>
+                      {languages.map((l) => (
+                        <option key={l} value={l}>{languageLabel(l)}</option>
+                      ))}
+                    </select>
+                  )}
+                  <Button variant="outline" onClick={backStep} disabled={currentIndex === 0}>{t("app.stepBack")}</Button>
+                  <Button onClick={finishStep} disabled={!canFinishStep()}>{t("app.finishStep")}</Button>
                 </div>
               </div>
 
+              {outdatedOrigin && (
+                <div style={{ marginBottom: 12, padding: 8, borderRadius: 10, background: "#fffbeb", border: "1px solid #fcd34d", display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, fontSize: 14 }}>
+                  <span>
+                    {t("app.outdatedCopy", { name: outdatedOrigin.name, revision: liveSteps[currentIndex].origin!.revision, current: outdatedOrigin.revision })}
+                  </span>
+                  <Button variant="outline" onClick={() => updateFromLibrary(outdatedOrigin)}>{t("stepLibrary.update")}</Button>
+                </div>
+              )}
+
+              <section style={{ marginBottom: 14, display: "grid", gridTemplateColumns: "2fr 1fr", gap: 8 }}>
+                <div>
+                  <strong>{t("app.stepTitle")}{translating && ` (${languageLabel(editLang)})`}</strong>
+                  <div style={{ height: 6 }} />
+                  {translating ? (
+                    <Input
+                      value={translated(pendingMeta.title, pendingMeta.titleTranslations, editLang, primaryLang)}
+                      onChange={(e) => updateMeta({ titleTranslations: withTranslation(pendingMeta.titleTranslations, editLang, e.target.value) })}
+                      placeholder={pendingMeta.title || t("app.noPrimaryTitle")}
+                      disabled={!pendingMeta.title}
+                    />
+                  ) : (
+                    <Input value={pendingMeta.title || ""} onChange={(e) => updateMeta({ title: e.target.value || undefined })} placeholder={t("app.titlePlaceholder")} />
+                  )}
+                </div>
+                <div>
+                  <strong>{t("app.duration")}</strong>
+                  <div style={{ height: 6 }} />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={pendingMeta.durationMin ?? ""}
+                    onChange={(e) => updateMeta({ durationMin: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                    placeholder={t("app.durationPlaceholder")}
+                  />
+                </div>
+                <div style={{ gridColumn: "1 / -1" }}>
+                  <strong>{t("app.resources")}</strong>
+                  <div style={{ height: 6 }} />
+                  <div style={{ display: "flex", gap: 8 }}>
+                    <select value={resourceKind} onChange={(e) => setResourceKind(e.target.value as ResourceKind)} style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}>
+                      {RESOURCE_KINDS.map((k) => (
+                        <option key={k} value={k}>{resourceKindLabel(k)}</option>
+                      ))}
+                    </select>
+                    <Input
+                      value={resourceDraft}
+                      onChange={(e) => setResourceDraft(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && addResource()}
+                      placeholder={t("app.resourcePlaceholder")}
+                    />
+                    <Button variant="outline" onClick={addResource} disabled={!resourceDraft.trim()}>{t("app.add")}</Button>
+                  </div>
+                  {(pendingMeta.resources || []).length > 0 && (
+                    <div style={{ marginTop: 6, display: "flex", gap: 6, flexWrap: "wrap" }}>
+                      {(pendingMeta.resources || []).map((r, i) => (
+                        <span key={i} style={{ display: "inline-flex", gap: 6, alignItems: "center", padding: "2px 8px", borderRadius: 10, background: "#f3f4f6", fontSize: 14 }}>
+                          {formatResource(r)}
+                          <button onClick={() => removeResource(i)} title={t("common.remove")} style={{ border: "none", background: "none", cursor: "pointer", color: "#6b7280" }}>✕</button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </section>
+
               <section style={{ marginBottom: 14 }}>
-                <strong>Fotos</strong>
+                <strong>{t("app.photos")}</strong>
                 <div style={{ height: 6 }} />
-                <Input type="file" accept="image/*" multiple onChange={(e) => onPhotoUpload(e.target.files)} />
+                <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  {cameraAvailable && <Button onClick={() => setCameraOpen(true)}>{t("app.camera")}</Button>}
+                  <Input type="file" accept="image/*" multiple disabled={processingPhotos} onChange={(e) => onPhotoUpload(e.target)} />
+                </div>
+                {cameraOpen && (
+                  <CameraCapture
+                    settings={imageSettings}
+                    onAccept={(urls) => {
+                      addPhotos(urls);
+                      setCameraOpen(false);
+                    }}
+                    onClose={() => setCameraOpen(false)}
+                  />
+                )}
+                {processingPhotos && <div style={{ marginTop: 4, fontSize: 12, color: "#6b7280" }}>{t("photo.processing")}</div>}
+                <details style={{ marginTop: 6, fontSize: 14 }}>
+                  <summary style={{ cursor: "pointer", color: "#6b7280" }}>{t("app.imageSettings")}</summary>
+                  <div style={{ marginTop: 6, display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+                    <label>
+                      {t("app.maxSize")}{" "}
+                      <select value={imageSettings.maxSize} onChange={(e) => updateImageSettings({ maxSize: Number(e.target.value) })}>
+                        {[1024, 1600, 2048, 3072, 0].map((v) => (
+                          <option key={v} value={v}>{v ? `${v} px` : t("app.original")}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      {t("app.quality")}{" "}
+                      <select value={imageSettings.quality} onChange={(e) => updateImageSettings({ quality: Number(e.target.value) })}>
+                        {[0.6, 0.7, 0.8, 0.9, 1].map((v) => (
+                          <option key={v} value={v}>{Math.round(v * 100)} %</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      {t("app.imageFormat")}{" "}
+                      <select value={imageSettings.format} onChange={(e) => updateImageSettings({ format: e.target.value as ImageSettings["format"] })}>
+                        <option value="image/jpeg">JPEG</option>
+                        <option value="image/webp">WebP</option>
+                      </select>
+                    </label>
+                  </div>
+                </details>
                 <div style={{ marginTop: 10, display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 8 }}>
                   {pendingPhotos.map((src, i) => (
-                    <div key={i} style={{ position: "relative", border: "1px solid #e5e7eb", borderRadius: 12, overflow: "hidden" }}>
-                      <img src={src} alt={`Foto ${i + 1}`} style={{ width: "100%", height: 120, objectFit: "cover" }} />
-                      <Button variant="outline" style={{ position: "absolute", top: 6, right: 6 }} onClick={() => removePhotoAt(i)}>Entfernen</Button>
+                    <div key={i} style={{ border: "1px solid #e5e7eb", borderRadius: 12, overflow: "hidden" }}>
+                      <AnnotatedImage src={src} annotations={pendingAnnotations[i]} alt={t("app.photoAlt", { number: i + 1 })} style={{ display: "block", width: "100%", height: 120, objectFit: "cover" }} />
+                      <div style={{ padding: 6, display: "flex", gap: 4, flexWrap: "wrap" }}>
+                        <Button variant="outline" style={{ padding: "4px 8px", fontSize: 12 }} onClick={() => setAnnotatingPhoto(i)}>{t("app.annotate")}</Button>
+                        <Button variant="outline" style={{ padding: "4px 8px", fontSize: 12 }} onClick={() => setEditingPhoto(i)}>{t("app.edit")}</Button>
+                        <Button variant="outline" style={{ padding: "4px 8px", fontSize: 12 }} onClick={() => removePhotoAt(i)}>{t("common.remove")}</Button>
+                      </div>
                     </div>
                   ))}
                 </div>
+                {annotatingPhoto !== null && pendingPhotos[annotatingPhoto] && (
+                  <AnnotationEditor
+                    src={pendingPhotos[annotatingPhoto]}
+                    annotations={pendingAnnotations[annotatingPhoto] || []}
+                    texts={pendingTexts}
+                    stepNo={stepNo}
+                    onSave={(annotations) => {
+                      setAnnotationsAt(annotatingPhoto, annotations);
+                      setAnnotatingPhoto(null);
+                    }}
+                    onClose={() => setAnnotatingPhoto(null)}
+                  />
+                )}
+                {editingPhoto !== null && pendingPhotos[editingPhoto] && (
+                  <PhotoEditor
+                    src={pendingPhotos[editingPhoto]}
+                    settings={imageSettings}
+                    onSave={(url) => {
+                      if ((pendingAnnotations[editingPhoto] || []).length > 0 && !window.confirm(t("app.confirmDropAnnotations"))) return;
+                      replacePhotoAt(editingPhoto, url);
+                      setEditingPhoto(null);
+                    }}
+                    onClose={() => setEditingPhoto(null)}
+                  />
+                )}
               </section>
 
-              <section>
-                <strong>Texte</strong>
-                <div style={{ height: 6 }} />
-                <Textarea
-                  placeholder={`Beschreibung für Schritt ${stepNo}`}
-                  value={textDraft}
-                  onChange={(e) => setTextDraft(e.target.value)}
-                />
-                <label style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 6 }}>
-                  <input type="checkbox" checked={textImportant} onChange={(e) => setTextImportant(e.target.checked)} />
-                  Als wichtig markieren
-                </label>
-                <div style={{ height: 8 }} />
-                <Button variant="outline" onClick={addText}>Text hinzufügen</Button>
-
-                <ol style={{ marginTop: 12, display: "grid", gap: 8 }}>
-                  {pendingTexts.map((t, i) => (
-                    <li key={t.id} style={{ display: "flex", gap: 8, alignItems: "flex-start", border: "1px solid #e5e7eb", borderRadius: 10, padding: 10, background: "#fff" }}>
-                      <div style={{ width: 46, fontWeight: 700 }}>{stepNo}.{i + 1}</div>
-                      <div style={{ flex: 1, color: t.important ? "#b91c1c" : undefined, fontWeight: t.important ? 700 : 400 }}>
-                        {t.content}
-                        <div style={{ marginTop: 6, display: "flex", gap: 6 }}>
-                          <Button variant="outline" onClick={() => toggleImportant(t.id)}>Wichtig umschalten</Button>
-                          <Button variant="outline" onClick={() => removeText(t.id)}>Entfernen</Button>
+              {translating ? (
+                <section>
+                  <strong>{t("app.textsIn", { language: languageLabel(editLang) })}</strong>
+                  <div style={{ marginTop: 4, fontSize: 12, color: "#6b7280" }}>
+                    {t("app.translateHint", { language: languageLabel(primaryLang) })}
+                  </div>
+                  <ol style={{ marginTop: 12, display: "grid", gap: 8 }}>
+                    {pendingTexts.map((item, i) => (
+                      <li key={item.id} style={{ display: "flex", gap: 8, alignItems: "flex-start", border: "1px solid #e5e7eb", borderRadius: 10, padding: 10, background: "#fff" }}>
+                        <div style={{ width: 46, fontWeight: 700 }}>{stepNo}.{i + 1}</div>
+                        <div style={{ flex: 1 }}>
+                          <div style={{ color: "#6b7280", fontSize: 14, marginBottom: 6 }}>{item.content}</div>
+                          <Textarea
+                            value={translated(item.content, item.translations, editLang, primaryLang)}
+                            onChange={(e) => setTextTranslation(item.id, e.target.value)}
+                            placeholder={t("app.translationPlaceholder", { language: languageLabel(editLang) })}
+                            style={item.translations?.[editLang] ? undefined : { boxShadow: "0 0 0 2px #fcd34d" }}
+                          />
                         </div>
-                      </div>
-                    </li>
-                  ))}
-                </ol>
-              </section>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              ) : (
+                <section>
+                  <strong>{t("app.texts")}</strong>
+                  <div style={{ height: 6 }} />
+                  <Textarea
+                    placeholder={t("app.textPlaceholder", { index: stepNo })}
+                    value={textDraft}
+                    onChange={(e) => setTextDraft(e.target.value)}
+                  />
+                  <label style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 6 }}>
+                    {t("app.severity")}
+                    <select value={textSeverity} onChange={(e) => setTextSeverity(e.target.value as Severity)} style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}>
+                      {SEVERITIES.map((sv) => (
+                        <option key={sv.key} value={sv.key}>{severityLabel(sv.key)}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div style={{ height: 8 }} />
+                  <Button variant="outline" onClick={addText}>{t("app.addText")}</Button>
+
+                  <ol style={{ marginTop: 12, display: "grid", gap: 8 }}>
+                    {pendingTexts.map((item, i) => (
+                      <li
+                        key={item.id}
+                        draggable={editingTextId !== item.id}
+                        onDragStart={() => setDragTextFrom(i)}
+                        onDragOver={(e) => dragTextFrom !== null && e.preventDefault()}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          if (dragTextFrom !== null) reorderText(dragTextFrom, i);
+                          setDragTextFrom(null);
+                        }}
+                        onDragEnd={() => setDragTextFrom(null)}
+                        style={{ display: "flex", gap: 8, alignItems: "flex-start", border: "1px solid #e5e7eb", borderRadius: 10, padding: 10, background: "#fff", opacity: dragTextFrom === i ? 0.5 : 1 }}
+                      >
+                        <div style={{ width: 46, fontWeight: 700 }}>{stepNo}.{i + 1}</div>
+                        {editingTextId === item.id ? (
+                          <div style={{ flex: 1 }}>
+                            <Textarea value={editingContent} onChange={(e) => setEditingContent(e.target.value)} autoFocus />
+                            <div style={{ marginTop: 6, display: "flex", gap: 6 }}>
+                              <Button onClick={saveEditText} disabled={!editingContent.trim()}>{t("common.apply")}</Button>
+                              <Button variant="outline" onClick={() => setEditingTextId(null)}>{t("common.cancel")}</Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div style={{ flex: 1, color: item.severity !== "none" ? severityInfo(item.severity).color : undefined, fontWeight: item.severity !== "none" ? 700 : 400 }}>
+                            {item.severity !== "none" && `${severityLabel(item.severity).toUpperCase()}: `}
+                            {item.content}
+                            {markersForText({ annotations: pendingAnnotations }, item.id).map((m) => (
+                              <span key={m} style={{ marginLeft: 6, padding: "0 6px", borderRadius: 8, background: "#fee2e2", color: "#b91c1c", fontSize: 12 }}>● {m}</span>
+                            ))}
+                            <div style={{ marginTop: 6, display: "flex", gap: 6, flexWrap: "wrap" }}>
+                              <Button variant="outline" onClick={() => startEditText(item)}>{t("app.edit")}</Button>
+                              <select value={item.severity} onChange={(e) => setSeverity(item.id, e.target.value as Severity)} style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}>
+                                {SEVERITIES.map((sv) => (
+                                  <option key={sv.key} value={sv.key}>{severityLabel(sv.key)}</option>
+                                ))}
+                              </select>
+                              <Button variant="outline" title={t("navigator.up")} disabled={i === 0} onClick={() => reorderText(i, i - 1)}>↑</Button>
+                              <Button variant="outline" title={t("navigator.down")} disabled={i === pendingTexts.length - 1} onClick={() => reorderText(i, i + 1)}>↓</Button>
+                              {process.steps.length > 1 && (
+                                <select
+                                  value=""
+                                  onChange={(e) => moveTextToStep(item.id, Number(e.target.value))}
+                                  style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}
+                                >
+                                  <option value="" disabled>{t("app.moveTo")}</option>
+                                  {process.steps.map((s, si) =>
+                                    si === currentIndex ? null : (
+                                      <option key={s.id} value={si}>{stepHeading({ index: s.index })}</option>
+                                    )
+                                  )}
+                                </select>
+                              )}
+                              <Button variant="outline" onClick={() => removeText(item.id)}>{t("common.remove")}</Button>
+                            </div>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              )}
 
               <div style={{ marginTop: 14, display: "flex", justifyContent: "flex-end", gap: 8 }}>
-                <Button variant="outline" onClick={backStep} disabled={currentIndex === 0}>Schritt zurück</Button>
-                <Button onClick={finishStep} disabled={!canFinishStep()}>Schritt beenden</Button>
+                <Button variant="outline" onClick={backStep} disabled={currentIndex === 0}>{t("app.stepBack")}</Button>
+                <Button onClick={finishStep} disabled={!canFinishStep()}>{t("app.finishStep")}</Button>
               </div>
 
-              <div style={{ marginTop: 14, display: "flex", justifyContent: "space-between", alignItems: "center" }}>
-                <div style={{ fontSize: 12, color: "#6b7280" }}>Zum Export zuerst finalisieren.</div>
-                <Button onClick={finishProcess}>Prozess beenden</Button>
+              <div style={{ marginTop: 14, display: "grid", gridTemplateColumns: "1fr 2fr", gap: 8 }}>
+                <Input value={author} onChange={(e) => setAuthor(e.target.value)} placeholder={t("app.author")} />
+                <Input value={changeNote} onChange={(e) => setChangeNote(e.target.value)} placeholder={t("app.changeNote")} />
+              </div>
+              {(process.history || []).length > 0 && (
+                <div style={{ marginTop: 8, display: "flex", gap: 12, alignItems: "center", fontSize: 14 }}>
+                  <span>{t("app.bumpKind")}</span>
+                  {(["minor", "major", "patch"] as VersionBump[])
+                    .filter((k) => k !== "patch" || (parseVersion(process.version) || []).length === 3)
+                    .map((k) => (
+                      <label key={k} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                        <input type="radio" name="bump" checked={bumpKind === k} onChange={() => setBumpKind(k)} />
+                        {t(`app.bump.${k}`)} (v{bumpVersion(process.version, k)})
+                      </label>
+                    ))}
+                </div>
+              )}
+
+              <div style={{ marginTop: 8, display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <div style={{ fontSize: 12, color: autosaveFailed ? "#b91c1c" : "#6b7280" }}>
+                  {autosaveFailed ? t("app.autosaveFailed") : t("app.draftHint")}
+                </div>
+                <Button onClick={finishProcess}>{t("app.submit")}</Button>
               </div>
             </div>
 
-            <div style={{ position: "sticky", top: 24 }}>
+            <div style={{ position: "sticky", top: 24, maxHeight: "calc(100vh - 48px)", overflowY: "auto" }}>
+              <div style={{ marginBottom: 16, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+                <h3 style={{ marginTop: 0, marginBottom: 6 }}>{t("app.steps")}</h3>
+                <div style={{ display: "grid", gap: 6, marginBottom: 8 }}>
+                  <Input value={stepQuery} onChange={(e) => setStepQuery(e.target.value)} placeholder={t("app.searchProcess")} />
+                  <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 14 }}>
+                    <input type="checkbox" checked={stepImportantOnly} onChange={(e) => setStepImportantOnly(e.target.checked)} />
+                    {t("search.importantOnly")}
+                  </label>
+                </div>
+                {stepHits ? (
+                  stepHits.length === 0 ? (
+                    <div style={{ fontSize: 14, color: "#6b7280" }}>{t("common.noHits")}</div>
+                  ) : (
+                    <HitList hits={stepHits} terms={stepTerms} onJump={(i) => i !== null && jumpToStep(i)} />
+                  )
+                ) : (
+                  <StepNavigator
+                    steps={liveSteps}
+                    currentIndex={currentIndex}
+                    onJump={jumpToStep}
+                    onMove={moveStep}
+                    onInsert={insertStep}
+                    onDelete={deleteStep}
+                  />
+                )}
+              </div>
+              <div style={{ marginBottom: 16, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+                <h3 style={{ marginTop: 0, marginBottom: 6 }}>{t("app.stepLibrary")}</h3>
+                {liveSteps[currentIndex] && (
+                  <StepLibraryPanel
+                    steps={librarySteps}
+                    currentStep={liveSteps[currentIndex]}
+                    onChanged={refreshLibrarySteps}
+                    onLink={linkCurrentStep}
+                    onInsert={insertLibraryStep}
+                  />
+                )}
+                <div style={{ marginTop: 12, borderTop: "1px solid #e5e7eb", paddingTop: 8 }}>
+                  <Button variant="outline" onClick={saveAsTemplate}>{t("app.saveAsTemplate")}</Button>
+                </div>
+              </div>
               <div style={{ background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
                 <h3 style={{ marginTop: 0, marginBottom: 6 }}>
-                  Vorschau – {process.name} (v{process.version})
+                  {t("app.preview", { name: process.name, version: process.version })}
                 </h3>
-                {process.steps.map((s) => {
-                  if (s.photos.length === 0 && s.texts.length === 0) return null;
-                  return (
-                    <div key={s.index} style={{ marginBottom: 12 }}>
-                      <strong>Schritt {s.index}</strong>
-                      {s.photos.length > 0 && (
-                        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, marginTop: 6 }}>
-                          {s.photos.map((src, i) => (
-                            <img key={i} src={src} alt="" style={{ width: "100%", borderRadius: 8, border: "1px solid #e5e7eb" }} />
-                          ))}
-                        </div>
-                      )}
-                      {s.texts.length > 0 && (
-                        <ol style={{ marginTop: 6, paddingLeft: 18 }}>
-                          {s.texts.map((t, i) => (
-                            <li key={t.id} style={{ color: t.important ? "#b91c1c" : undefined, fontWeight: t.important ? 700 : 400 }}>
-                              {s.index}.{i + 1} {t.content}
-                            </li>
-                          ))}
-                        </ol>
-                      )}
-                    </div>
-                  );
-                })}
+                <ProcessPreview steps={process.steps} />
+              </div>
+              <div style={{ marginTop: 16, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+                <h3 style={{ marginTop: 0, marginBottom: 6 }}>{t("app.approval")}</h3>
+                <ApprovalPanel process={process} finalized={finalized} onAction={applyApprovalAction} />
+              </div>
+              <div style={{ marginTop: 16, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+                <h3 style={{ marginTop: 0, marginBottom: 6 }}>{t("app.history")}</h3>
+                <HistoryPanel process={process} onRestore={restoreVersion} />
               </div>
+              <div style={{ marginTop: 16, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+                <h3 style={{ marginTop: 0, marginBottom: 6 }}>{t("app.layout")}</h3>
+                <LayoutSettings layout={normalizeLayout(process.layout)} languages={languages} onChange={updateLayout} />
+              </div>
+              <div style={{ marginTop: 16, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+                <h3 style={{ marginTop: 0, marginBottom: 6 }}>{t("app.languages")}</h3>
+                <LanguagesPanel
+                  process={{ ...process, steps: liveSteps }}
+                  editLang={translating ? editLang : primaryLang}
+                  onEditLang={setEditLang}
+                  onChange={updateLanguages}
+                  onJump={jumpToTranslation}
+                />
+              </div>
+              {libraryId && (
+                <div style={{ marginTop: 16, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+                  <h3 style={{ marginTop: 0, marginBottom: 6 }}>{t("app.execution")}</h3>
+                  <ExecutionsPanel
+                    key={`${libraryId}-${executionsRev}`}
+                    process={process}
+                    processId={libraryId}
+                    defaultOperator={localStorage.getItem(OPERATOR_KEY) || author}
+                    onStart={beginExecution}
+                    onResume={setExecution}
+                    onExportPdf={exportExecutionPdf}
+                  />
+                </div>
+              )}
             </div>
           </div>
         )}
       </div>
+      <Toasts />
     </div>
   );
 }
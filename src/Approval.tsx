@@ -0,0 +1,81 @@
+import React, { useState } from "react";
+import { Button } from "./ui";
+import { ProcessData, Signature, approvalOf, approvalStatusInfo, approvalStatusLabel } from "./model";
+import { MessageKey, formatDateTime, t } from "./i18n";
+import { ApprovalAction, approvalError, latestVersion, pendingAction } from "./approval";
+import SignatureDialog from "./SignaturePad";
+
+/** ------------------------
+ *  Freigabe: Status der letzten Version, Prüfen/Freigeben mit Unterschrift, Ablehnen mit Begründung
+ *  ------------------------ */
+const DIALOG_TITLES: Record<ApprovalAction, MessageKey> = {
+  review: "approvalPanel.dialog.review",
+  approve: "approvalPanel.dialog.approve",
+  reject: "approvalPanel.dialog.reject",
+};
+
+function SignatureRow(props: { label: string; sig: Signature }) {
+  const { label, sig } = props;
+  return (
+    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+      <div>
+        <strong>{label}:</strong> {sig.name}, {formatDateTime(sig.date)}
+        {sig.comment && <div style={{ color: "#b91c1c" }}>„{sig.comment}“</div>}
+      </div>
+      {sig.image && <img src={sig.image} alt={t("approvalPanel.signatureOf", { name: sig.name })} style={{ height: 28, maxWidth: 90 }} />}
+    </div>
+  );
+}
+
+export default function ApprovalPanel(props: { process: ProcessData; finalized: boolean; onAction: (action: ApprovalAction, sig: Signature) => void }) {
+  const { process, finalized, onAction } = props;
+  const [dialog, setDialog] = useState<ApprovalAction | null>(null);
+  const last = latestVersion(process);
+  const next = pendingAction(process);
+
+  if (!last) {
+    return <div style={{ fontSize: 14, color: "#6b7280" }}>{t("approvalPanel.noVersion")}</div>;
+  }
+  const approval = approvalOf(last);
+  const status = approvalStatusInfo(approval.status);
+
+  function confirm(action: ApprovalAction, result: { name: string; image?: string; comment?: string }) {
+    const error = approvalError(process, action, result.name);
+    if (error) return error;
+    onAction(action, { ...result, date: new Date().toISOString() });
+    setDialog(null);
+    return null;
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 6, fontSize: 14 }}>
+      {!finalized && <div style={{ color: "#6b7280" }}>{t("approvalPanel.workingDraft")}</div>}
+      <div>
+        v{last.version}: <strong style={{ color: status.color }}>{approvalStatusLabel(approval.status)}</strong>
+        {approval.status === "review" && ` – ${approval.reviewed ? t("approvalPanel.awaitingApproval") : t("approvalPanel.awaitingReview")}`}
+      </div>
+      {last.author && <SignatureRow label={t("approvalPanel.created")} sig={{ name: last.author, date: last.createdAt }} />}
+      {approval.reviewed && <SignatureRow label={t("approvalPanel.reviewed")} sig={approval.reviewed} />}
+      {approval.approved && <SignatureRow label={t("approval.approved")} sig={approval.approved} />}
+      {approval.rejected && <SignatureRow label={approval.status === "rejected" ? t("approval.rejected") : t("approvalPanel.previouslyRejected")} sig={approval.rejected} />}
+      {approval.status === "rejected" && <div style={{ color: "#6b7280" }}>{t("approvalPanel.resubmitHint")}</div>}
+
+      {approval.status === "review" && (
+        <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+          {next && <Button onClick={() => setDialog(next)}>{next === "review" ? t("approvalPanel.review") : t("approvalPanel.approve")}</Button>}
+          <Button variant="outline" onClick={() => setDialog("reject")}>{t("approvalPanel.reject")}</Button>
+        </div>
+      )}
+
+      {dialog && (
+        <SignatureDialog
+          title={`${t(DIALOG_TITLES[dialog])} (v${last.version})`}
+          defaultName=""
+          mode={dialog === "reject" ? "reject" : "sign"}
+          onConfirm={(result) => confirm(dialog, result)}
+          onCancel={() => setDialog(null)}
+        />
+      )}
+    </div>
+  );
+}
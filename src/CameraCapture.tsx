@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "./ui";
+import { ImageSettings, captureFrame } from "./images";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Kamera-Aufnahme mit Live-Vorschau (getUserMedia)
+ *  ------------------------ */
+const BURST_COUNT = 3;
+const BURST_INTERVAL = 350; // ms
+
+/** true, wenn das Gerät mindestens eine Kamera meldet */
+export async function hasCamera() {
+  if (!navigator.mediaDevices?.getUserMedia || !navigator.mediaDevices.enumerateDevices) return false;
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.some((d) => d.kind === "videoinput");
+  } catch {
+    return false;
+  }
+}
+
+interface Props {
+  settings: ImageSettings;
+  onAccept: (photos: string[]) => void;
+  onClose: () => void;
+}
+
+export default function CameraCapture(props: Props) {
+  const { settings, onAccept, onClose } = props;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<"environment" | "user">("environment");
+  const [shots, setShots] = useState<string[]>([]);
+  const [retakeAt, setRetakeAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const [flash, setFlash] = useState(false);
+
+  // Stream bei Kamerawechsel neu öffnen und beim Schließen sicher beenden
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setReady(false);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = s;
+        setError(null);
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = s;
+          video.play().then(() => setReady(true), () => setReady(true));
+        }
+      })
+      .catch(() => setError(t("camera.unavailable")));
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [facing]);
+
+  function shoot() {
+    const video = videoRef.current;
+    if (!video || !ready || !video.videoWidth) return;
+    const url = captureFrame(video, settings);
+    setFlash(true);
+    setTimeout(() => setFlash(false), 120);
+    if (retakeAt !== null) {
+      setShots((prev) => prev.map((s, i) => (i === retakeAt ? url : s)));
+      setRetakeAt(null);
+    } else {
+      setShots((prev) => [...prev, url]);
+    }
+  }
+
+  async function burst() {
+    for (let i = 0; i < BURST_COUNT; i++) {
+      if (i > 0) await new Promise((r) => setTimeout(r, BURST_INTERVAL));
+      shoot();
+    }
+  }
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "#000", display: "flex", flexDirection: "column", zIndex: 10 }}>
+      <div style={{ flex: 1, position: "relative", minHeight: 0 }}>
+        <video ref={videoRef} playsInline muted style={{ width: "100%", height: "100%", objectFit: "contain", transform: facing === "user" ? "scaleX(-1)" : undefined }} />
+        {flash && <div style={{ position: "absolute", inset: 0, background: "rgba(255,255,255,0.6)" }} />}
+        {error && (
+          <div style={{ position: "absolute", inset: 0, display: "flex", alignItems: "center", justifyContent: "center", color: "#fff", padding: 24, textAlign: "center" }}>
+            {error}
+          </div>
+        )}
+        {retakeAt !== null && (
+          <div style={{ position: "absolute", top: 12, left: 0, right: 0, textAlign: "center", color: "#fff" }}>
+            {t("camera.retaking", { number: retakeAt + 1 })}
+          </div>
+        )}
+      </div>
+
+      {shots.length > 0 && (
+        <div style={{ display: "flex", gap: 8, padding: 8, overflowX: "auto", background: "#111827" }}>
+          {shots.map((src, i) => (
+            <div key={i} style={{ position: "relative", flex: "0 0 auto" }}>
+              <img src={src} alt={t("camera.shot", { number: i + 1 })} style={{ height: 72, borderRadius: 6, outline: retakeAt === i ? "3px solid #f59e0b" : undefined }} />
+              <div style={{ display: "flex", gap: 4, marginTop: 4 }}>
+                <Button variant="outline" style={{ padding: "2px 6px", fontSize: 12 }} onClick={() => setRetakeAt(retakeAt === i ? null : i)}>{t("camera.retake")}</Button>
+                <Button
+                  variant="outline"
+                  style={{ padding: "2px 6px", fontSize: 12 }}
+                  onClick={() => {
+                    setShots((prev) => prev.filter((_, idx) => idx !== i));
+                    setRetakeAt(null);
+                  }}
+                >
+                  ✕
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, padding: 12, alignItems: "center", justifyContent: "space-between", background: "#111827" }}>
+        <Button variant="outline" onClick={onClose}>{t("common.cancel")}</Button>
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <Button variant="outline" onClick={() => setFacing((f) => (f === "environment" ? "user" : "environment"))} disabled={!!error}>
+            {t("camera.switch")}
+          </Button>
+          <button
+            aria-label={t("camera.shoot")}
+            onClick={shoot}
+            disabled={!ready || !!error}
+            style={{ width: 68, height: 68, borderRadius: 34, border: "4px solid #fff", background: ready ? "#dc2626" : "#6b7280", cursor: ready ? "pointer" : "not-allowed" }}
+          />
+          <Button variant="outline" onClick={burst} disabled={!ready || !!error || retakeAt !== null}>
+            {t("camera.burst", { count: BURST_COUNT })}
+          </Button>
+        </div>
+        <Button onClick={() => onAccept(shots)} disabled={shots.length === 0}>
+          {t("common.apply")} ({shots.length})
+        </Button>
+      </div>
+    </div>
+  );
+}
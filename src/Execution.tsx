@@ -0,0 +1,200 @@
+import React, { useRef, useState } from "react";
+import { Button, Input, Textarea } from "./ui";
+import { StepData, severityInfo, severityLabel } from "./model";
+import { ExecutionRecord, ExecutionStep, executionStatusInfo, executionStatusLabel, executionSummary } from "./execution";
+import { ImageSettings, processPhoto } from "./images";
+import AnnotatedImage from "./AnnotatedImage";
+import { formatDateTime, t } from "./i18n";
+import { toast } from "./Toasts";
+
+/** ------------------------
+ *  Durchführung: Schritt für Schritt abhaken (Vollbild, nur lesend gegenüber dem Prozess)
+ *  ------------------------ */
+interface Props {
+  record: ExecutionRecord;
+  steps: StepData[] | null; // Schritte der durchgeführten Version mit Fotos; null = Version nicht mehr vorhanden
+  imageSettings: ImageSettings;
+  onChange: (rec: ExecutionRecord) => void;
+  onExportPdf: (rec: ExecutionRecord) => void;
+  onClose: () => void;
+}
+
+export default function ExecutionView(props: Props) {
+  const { record, steps, imageSettings, onChange, onExportPdf, onClose } = props;
+  const [openDeviations, setOpenDeviations] = useState<string[]>([]);
+  const [processingPhoto, setProcessingPhoto] = useState(false);
+  const proofRef = useRef<HTMLInputElement>(null);
+  const index = Math.min(record.currentStep, record.steps.length - 1);
+  const step = record.steps[index];
+  const photos = steps?.find((s) => s.id === step?.stepId);
+  const summary = executionSummary(record);
+  const running = record.status === "running";
+
+  function updateStep(patch: Partial<ExecutionStep>) {
+    onChange({ ...record, steps: record.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  }
+  function updateItem(textId: string, patch: { done?: boolean; deviation?: string }) {
+    updateStep({ items: step.items.map((it) => (it.textId === textId ? { ...it, ...patch } : it)) });
+  }
+  function toggleDeviation(textId: string, open: boolean) {
+    if (open) {
+      setOpenDeviations((prev) => prev.filter((id) => id !== textId));
+      updateItem(textId, { deviation: undefined });
+    } else {
+      setOpenDeviations((prev) => [...prev, textId]);
+    }
+  }
+
+  function goTo(next: number) {
+    const updated = record.steps.map((s, i) => (i === index && next > index && !s.completedAt ? { ...s, completedAt: new Date().toISOString() } : s));
+    onChange({ ...record, steps: updated, currentStep: next });
+    setOpenDeviations([]);
+    window.scrollTo(0, 0);
+  }
+  function finish() {
+    const open = summary.total - summary.done;
+    if (open > 0 && !window.confirm(t("execution.confirmFinish", { count: open }))) return;
+    const now = new Date().toISOString();
+    onChange({
+      ...record,
+      steps: record.steps.map((s, i) => (i === index && !s.completedAt ? { ...s, completedAt: now } : s)),
+      status: "completed",
+      finishedAt: now,
+    });
+  }
+  function abort() {
+    if (!window.confirm(t("execution.confirmAbort"))) return;
+    onChange({ ...record, status: "aborted", finishedAt: new Date().toISOString() });
+  }
+
+  async function uploadProof(file: File | null) {
+    if (!file) return;
+    setProcessingPhoto(true);
+    try {
+      updateStep({ proofPhoto: await processPhoto(file, { ...imageSettings, format: "image/jpeg" }) });
+    } catch {
+      toast(t("photo.loadError"));
+    } finally {
+      setProcessingPhoto(false);
+      if (proofRef.current) proofRef.current.value = "";
+    }
+  }
+
+  const status = executionStatusInfo(record.status);
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "#f9fafb", overflowY: "auto", zIndex: 5, fontFamily: "sans-serif" }}>
+      <div style={{ maxWidth: 900, margin: "0 auto", padding: 24 }}>
+        <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginBottom: 12 }}>
+          <div>
+            <div style={{ fontSize: 20, fontWeight: 700 }}>
+              {record.processName} (v{record.processVersion})
+            </div>
+            <div style={{ fontSize: 14, color: "#6b7280" }}>
+              {t("execution.subtitle", { operator: record.operator || t("common.noName"), date: formatDateTime(record.startedAt) })} ·{" "}
+              <span style={{ color: status.color }}>{executionStatusLabel(record.status)}</span>
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 8 }}>
+            {running && <Button variant="outline" onClick={abort}>{t("execution.abort")}</Button>}
+            <Button variant="outline" onClick={onClose}>{running ? t("execution.pause") : t("common.close")}</Button>
+          </div>
+        </header>
+
+        <div style={{ height: 8, background: "#e5e7eb", borderRadius: 4, marginBottom: 16 }}>
+          <div style={{ width: `${summary.total ? (summary.done / summary.total) * 100 : 0}%`, height: "100%", background: "#15803d", borderRadius: 4 }} />
+        </div>
+
+        {!running ? (
+          <div style={{ background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 24, fontSize: 18 }}>
+            <h2 style={{ marginTop: 0 }}>{record.status === "aborted" ? t("execution.headingAborted") : t("execution.headingCompleted")}</h2>
+            <div>
+              {t("execution.summary", { done: summary.done, total: summary.total })}
+              {summary.deviations > 0 && <span style={{ color: "#b91c1c" }}> · {t("executions.deviations", { count: summary.deviations })}</span>}
+            </div>
+            <div style={{ color: "#6b7280", fontSize: 14, marginTop: 4 }}>{t("execution.finishedAt", { date: record.finishedAt ? formatDateTime(record.finishedAt) : "–" })}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+              <Button onClick={() => onExportPdf(record)}>{t("execution.exportPdf")}</Button>
+              <Button variant="outline" onClick={onClose}>{t("common.close")}</Button>
+            </div>
+          </div>
+        ) : (
+          <div style={{ background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 24 }}>
+            <div style={{ fontSize: 14, color: "#6b7280" }}>
+              {t("execution.stepOf", { step: index + 1, steps: record.steps.length })}
+            </div>
+            <h2 style={{ marginTop: 4, fontSize: 26 }}>{step.heading}</h2>
+
+            {photos ? (
+              <div style={{ display: "grid", gridTemplateColumns: photos.photos.length > 1 ? "1fr 1fr" : "1fr", gap: 12, marginBottom: 16 }}>
+                {photos.photos.map((src, i) => (
+                  <AnnotatedImage key={i} src={src} annotations={photos.annotations?.[i]} style={{ width: "100%", borderRadius: 10, border: "1px solid #e5e7eb" }} />
+                ))}
+              </div>
+            ) : (
+              <div style={{ color: "#6b7280", marginBottom: 16 }}>{t("execution.photosMissing")}</div>
+            )}
+
+            <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 10 }}>
+              {step.items.map((it) => {
+                const sev = severityInfo(it.severity);
+                const deviationOpen = openDeviations.includes(it.textId) || it.deviation !== undefined;
+                return (
+                  <li key={it.textId} style={{ border: "1px solid #e5e7eb", borderRadius: 10, padding: 12, background: it.done ? "#f0fdf4" : "#fff" }}>
+                    <label style={{ display: "flex", gap: 12, alignItems: "flex-start", fontSize: 20, cursor: "pointer" }}>
+                      <input type="checkbox" checked={it.done} onChange={(e) => updateItem(it.textId, { done: e.target.checked })} style={{ width: 28, height: 28, flexShrink: 0 }} />
+                      <span style={{ color: sev.color, fontWeight: it.severity !== "none" ? 700 : 400 }}>
+                        {it.label} {it.severity !== "none" && `${severityLabel(it.severity).toUpperCase()}: `}
+                        {it.content}
+                      </span>
+                    </label>
+                    <div style={{ marginTop: 8, display: "flex", gap: 8, alignItems: "center" }}>
+                      {deviationOpen && (
+                        <Input
+                          value={it.deviation || ""}
+                          onChange={(e) => updateItem(it.textId, { deviation: e.target.value })}
+                          placeholder={t("execution.describeDeviation")}
+                          autoFocus={!it.deviation}
+                          style={{ boxShadow: "0 0 0 2px #fca5a5" }}
+                        />
+                      )}
+                      <Button variant="outline" onClick={() => toggleDeviation(it.textId, deviationOpen)} style={{ whiteSpace: "nowrap" }}>
+                        {deviationOpen ? t("execution.noDeviation") : t("protocol.deviation")}
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div style={{ marginTop: 16 }}>
+              <strong>{t("protocol.comment")}</strong>
+              <div style={{ height: 6 }} />
+              <Textarea value={step.comment || ""} onChange={(e) => updateStep({ comment: e.target.value || undefined })} placeholder={t("execution.optional")} style={{ fontSize: 16 }} />
+            </div>
+
+            <div style={{ marginTop: 12, display: "flex", gap: 12, alignItems: "center" }}>
+              {step.proofPhoto && <img src={step.proofPhoto} alt={t("protocol.proofPhoto")} style={{ maxHeight: 120, borderRadius: 8, border: "1px solid #e5e7eb" }} />}
+              <Button variant="outline" onClick={() => proofRef.current?.click()} disabled={processingPhoto}>
+                {processingPhoto ? t("photo.processing") : step.proofPhoto ? t("execution.replaceProof") : t("execution.takeProof")}
+              </Button>
+              {step.proofPhoto && <Button variant="outline" onClick={() => updateStep({ proofPhoto: undefined })}>{t("common.remove")}</Button>}
+              <input ref={proofRef} type="file" accept="image/*" capture="environment" style={{ display: "none" }} onChange={(e) => uploadProof(e.target.files?.[0] || null)} />
+            </div>
+
+            <div style={{ marginTop: 24, display: "flex", justifyContent: "space-between" }}>
+              <Button variant="outline" onClick={() => goTo(index - 1)} disabled={index === 0} style={{ fontSize: 18, padding: "12px 20px" }}>
+                {t("execution.back")}
+              </Button>
+              {index < record.steps.length - 1 ? (
+                <Button onClick={() => goTo(index + 1)} style={{ fontSize: 18, padding: "12px 20px" }}>{t("execution.next")}</Button>
+              ) : (
+                <Button onClick={finish} style={{ fontSize: 18, padding: "12px 20px" }}>{t("execution.finish")}</Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from "react";
+import { Button, Input } from "./ui";
+import { ProcessData, languageLabel, processLanguages } from "./model";
+import { ExecutionRecord, executionStatusInfo, executionStatusLabel, executionSummary } from "./execution";
+import { approvedVersion } from "./approval";
+import { deleteExecution, listExecutions } from "./storage";
+import { formatDateTime, t } from "./i18n";
+
+/** ------------------------
+ *  Durchführungen eines Prozesses: starten, fortsetzen, Protokolle
+ *  ------------------------ */
+interface Props {
+  process: ProcessData;
+  processId: string;
+  defaultOperator: string;
+  onStart: (operator: string, lang: string) => void;
+  onResume: (rec: ExecutionRecord) => void;
+  onExportPdf: (rec: ExecutionRecord) => void;
+}
+
+export default function ExecutionsPanel(props: Props) {
+  const { process, processId, defaultOperator, onStart, onResume, onExportPdf } = props;
+  const [records, setRecords] = useState<ExecutionRecord[] | null>(null);
+  const [operator, setOperator] = useState(defaultOperator);
+  const [operatorError, setOperatorError] = useState(false);
+  const languages = processLanguages(process);
+  const [lang, setLang] = useState(languages[0]);
+  const released = approvedVersion(process);
+
+  async function refresh() {
+    try {
+      setRecords(await listExecutions(processId));
+    } catch {
+      setRecords([]);
+    }
+  }
+
+  useEffect(() => {
+    listExecutions(processId)
+      .then(setRecords)
+      .catch(() => setRecords([]));
+  }, [processId]);
+
+  async function onDelete(rec: ExecutionRecord) {
+    if (!window.confirm(t("executions.confirmDelete", { date: formatDateTime(rec.startedAt), operator: rec.operator || t("common.noName") }))) return;
+    await deleteExecution(rec.id);
+    await refresh();
+  }
+
+  function start() {
+    if (!operator.trim()) {
+      setOperatorError(true);
+      return;
+    }
+    onStart(operator.trim(), lang);
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8, fontSize: 14 }}>
+      {!released ? (
+        <div style={{ color: "#6b7280" }}>{t("executions.notReleased")}</div>
+      ) : (
+        <>
+          <div style={{ color: "#6b7280" }}>{t("executions.releasedVersion", { version: released.version })}</div>
+          <Input
+            value={operator}
+            onChange={(e) => {
+              setOperator(e.target.value);
+              setOperatorError(false);
+            }}
+            placeholder={t("protocol.operator")}
+            style={operatorError ? { boxShadow: "0 0 0 2px #fca5a5" } : undefined}
+          />
+          {operatorError && <div style={{ fontSize: 12, color: "#b91c1c" }}>{t("executions.operatorMissing")}</div>}
+          <div style={{ display: "flex", gap: 8 }}>
+            {languages.length > 1 && (
+              <select value={lang} onChange={(e) => setLang(e.target.value)} style={{ padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}>
+                {languages.map((l) => (
+                  <option key={l} value={l}>{languageLabel(l)}</option>
+                ))}
+              </select>
+            )}
+            <Button onClick={start}>{t("executions.start")}</Button>
+          </div>
+        </>
+      )}
+
+      {records && records.length > 0 && (
+        <ul style={{ listStyle: "none", padding: 0, margin: "8px 0 0", display: "grid", gap: 6 }}>
+          {records.map((r) => {
+            const status = executionStatusInfo(r.status);
+            const summary = executionSummary(r);
+            return (
+              <li key={r.id} style={{ borderTop: "1px solid #e5e7eb", paddingTop: 6 }}>
+                <div>
+                  <strong>{formatDateTime(r.startedAt)}</strong> · v{r.processVersion} · {r.operator || t("common.noName")}
+                </div>
+                <div style={{ color: "#6b7280" }}>
+                  <span style={{ color: status.color }}>{executionStatusLabel(r.status)}</span> · {t("executions.done", { done: summary.done, total: summary.total })}
+                  {summary.deviations > 0 && <span style={{ color: "#b91c1c" }}> · {t("executions.deviations", { count: summary.deviations })}</span>}
+                </div>
+                <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+                  {r.status === "running" ? (
+                    <Button onClick={() => onResume(r)}>{t("executions.resume")}</Button>
+                  ) : (
+                    <Button variant="outline" onClick={() => onResume(r)}>{t("executions.view")}</Button>
+                  )}
+                  <Button variant="outline" onClick={() => onExportPdf(r)}>PDF</Button>
+                  <Button variant="outline" onClick={() => onDelete(r)}>{t("common.delete")}</Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import { Button } from "./ui";
+import { ProcessData, StepData, TextItem, VersionSnapshot, approvalOf, approvalStatusInfo, approvalStatusLabel, severityLabel } from "./model";
+import { StepDiff, TextDiff, diffSteps } from "./diff";
+import ProcessPreview from "./Preview";
+import { formatDateTime, t } from "./i18n";
+
+/** ------------------------
+ *  Versionsverlauf: Liste, Nur-Lese-Ansicht, Vergleich
+ *  ------------------------ */
+const CURRENT = "current";
+
+const colors = { added: "#15803d", removed: "#b91c1c", changed: "#b45309", unchanged: "#6b7280" };
+
+function textNo(step: StepData | undefined, text: TextItem | undefined) {
+  if (!step || !text) return "";
+  return `${step.index}.${step.texts.findIndex((x) => x.id === text.id) + 1}`;
+}
+
+function TextChange(props: { d: TextDiff; step: StepDiff }) {
+  const { d, step } = props;
+  const no = d.status === "removed" ? textNo(step.before, d.before) : textNo(step.after, d.after);
+  const parts: string[] = [];
+  if (d.status === "added") parts.push(t("history.textAdded", { text: d.after!.content }));
+  if (d.status === "removed") parts.push(t("history.textRemoved", { text: d.before!.content }));
+  if (d.contentChanged) parts.push(t("history.textChanged", { before: d.before!.content, after: d.after!.content }));
+  if (d.translationsChanged) parts.push(t("history.translationChanged"));
+  if (d.severityChanged) parts.push(`${severityLabel(d.before!.severity)} → ${severityLabel(d.after!.severity)}`);
+  if (d.moved) parts.push(t("history.textMoved", { before: textNo(step.before, d.before) }));
+  return (
+    <li style={{ color: colors[d.status === "unchanged" ? "changed" : d.status] }}>
+      {no} {parts.join(", ")}
+    </li>
+  );
+}
+
+function DiffView(props: { diff: StepDiff[] }) {
+  const changes = props.diff.filter((d) => d.status !== "unchanged" || d.moved);
+  if (changes.length === 0) return <div style={{ fontSize: 14, color: "#6b7280" }}>{t("history.noDifferences")}</div>;
+  return (
+    <div style={{ display: "grid", gap: 8, fontSize: 14 }}>
+      {changes.map((d) => {
+        const title =
+          d.status === "added"
+            ? t("history.stepAdded", { index: d.after!.index })
+            : d.status === "removed"
+            ? t("history.stepRemoved", { index: d.before!.index })
+            : d.moved
+            ? t("history.stepMoved", { index: d.after!.index, before: d.before!.index })
+            : t("history.stepChanged", { index: d.after!.index });
+        const notes: string[] = [];
+        if (d.status === "changed") {
+          if (d.photosAdded) notes.push(`+${t("history.photos", { count: d.photosAdded })}`);
+          if (d.photosRemoved) notes.push(`−${t("history.photos", { count: d.photosRemoved })}`);
+          if (d.photosReordered) notes.push(t("history.photosReordered"));
+          if (d.annotationsChanged) notes.push(t("history.annotationsChanged", { count: d.annotationsChanged }));
+          if (d.metaChanged.length) notes.push(t("history.metaChanged", { fields: d.metaChanged.map((f) => t(`history.meta.${f}`)).join(", ") }));
+        }
+        const texts = d.status === "changed" ? d.texts.filter((x) => x.status !== "unchanged" || x.moved) : [];
+        return (
+          <div key={d.id} style={{ borderLeft: `3px solid ${colors[d.status === "unchanged" ? "changed" : d.status]}`, paddingLeft: 8 }}>
+            <strong>{title}</strong>
+            {notes.length > 0 && <div>{notes.join(", ")}</div>}
+            {texts.length > 0 && (
+              <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+                {texts.map((x) => (
+                  <TextChange key={x.id} d={x} step={d} />
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function HistoryPanel(props: { process: ProcessData; onRestore: (snap: VersionSnapshot) => void }) {
+  const { process, onRestore } = props;
+  const history = process.history || [];
+  const [viewing, setViewing] = useState<number | null>(null);
+  const [from, setFrom] = useState(String(Math.max(history.length - 2, 0)));
+  const [to, setTo] = useState(CURRENT);
+  const [comparing, setComparing] = useState(false);
+
+  function stepsOf(key: string) {
+    return key === CURRENT ? process.steps : history[Number(key)]?.steps || [];
+  }
+
+  if (history.length === 0) {
+    return <div style={{ fontSize: 14, color: "#6b7280" }}>{t("history.empty")}</div>;
+  }
+
+  if (viewing !== null && history[viewing]) {
+    const snap = history[viewing];
+    return (
+      <div>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+          <strong>
+            {snap.name} (v{snap.version}, {t("history.readOnly")})
+          </strong>
+          <Button variant="outline" onClick={() => setViewing(null)}>{t("common.close")}</Button>
+        </div>
+        <ProcessPreview steps={snap.steps} />
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <ol style={{ margin: 0, paddingLeft: 0, listStyle: "none", display: "grid", gap: 6 }}>
+        {history
+          .map((snap, i) => (
+            <li key={i} style={{ border: "1px solid #e5e7eb", borderRadius: 10, padding: 8, fontSize: 14 }}>
+              <div>
+                <strong>v{snap.version}</strong> · {formatDateTime(snap.createdAt)}
+                {snap.author && ` · ${snap.author}`} ·{" "}
+                <span style={{ color: approvalStatusInfo(approvalOf(snap).status).color }}>{approvalStatusLabel(approvalOf(snap).status)}</span>
+              </div>
+              {snap.note && <div style={{ color: "#6b7280" }}>{snap.note}</div>}
+              <div style={{ marginTop: 6, display: "flex", gap: 6 }}>
+                <Button variant="outline" onClick={() => setViewing(i)}>{t("executions.view")}</Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (window.confirm(t("history.confirmRestore", { version: snap.version }))) onRestore(snap);
+                  }}
+                >
+                  {t("history.restore")}
+                </Button>
+              </div>
+            </li>
+          ))
+          .reverse()}
+      </ol>
+
+      <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+        <select value={from} onChange={(e) => setFrom(e.target.value)}>
+          {history.map((snap, i) => (
+            <option key={i} value={i}>v{snap.version}</option>
+          ))}
+          <option value={CURRENT}>{t("history.current")}</option>
+        </select>
+        →
+        <select value={to} onChange={(e) => setTo(e.target.value)}>
+          {history.map((snap, i) => (
+            <option key={i} value={i}>v{snap.version}</option>
+          ))}
+          <option value={CURRENT}>{t("history.current")}</option>
+        </select>
+        <Button variant="outline" onClick={() => setComparing((c) => !c)}>{comparing ? t("history.hide") : t("history.compare")}</Button>
+      </div>
+      {comparing && <DiffView diff={diffSteps(stepsOf(from), stepsOf(to))} />}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import { Button } from "./ui";
+import { languageLabel, processLanguages } from "./model";
+import { ImportResult, SCHEMA_VERSION } from "./schema";
+import { formatDateTime, t } from "./i18n";
+
+/** ------------------------
+ *  Import-Vorschau: Inhalt, Migrationen, Korrekturen und Fehler vor dem Übernehmen
+ *  ------------------------ */
+interface Props {
+  fileName: string;
+  result: ImportResult;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function ImportPreview(props: Props) {
+  const { fileName, result, onConfirm, onCancel } = props;
+  const { process: p, issues, migrations } = result;
+  const errors = issues.filter((i) => i.level === "error");
+  const repairs = issues.filter((i) => i.level === "repair");
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "rgba(17,24,39,0.6)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 10 }}>
+      <div style={{ background: "#fff", borderRadius: 12, padding: 16, width: 560, maxWidth: "95vw", maxHeight: "95vh", overflow: "auto", fontSize: 14 }}>
+        <h3 style={{ marginTop: 0 }}>{t("import.title")}</h3>
+        <div style={{ color: "#6b7280", marginBottom: 8 }}>
+          {fileName}
+          {result.fromVersion > 0 && ` · ${t("import.format", { version: result.fromVersion })}${result.fromVersion < SCHEMA_VERSION ? ` (${t("import.current", { version: SCHEMA_VERSION })})` : ""}`}
+        </div>
+
+        {p && (
+          <table style={{ borderCollapse: "collapse", marginBottom: 12 }}>
+            <tbody>
+              {[
+                [t("import.name"), p.name],
+                [t("import.version"), p.version],
+                [t("import.created"), formatDateTime(p.createdAt)],
+                [t("import.steps"), String(p.steps.length)],
+                [t("import.photos"), String(p.steps.reduce((n, s) => n + s.photos.length, 0))],
+                [t("import.texts"), String(p.steps.reduce((n, s) => n + s.texts.length, 0))],
+                [t("import.versions"), String((p.history || []).length)],
+                [t("import.languages"), processLanguages(p).map(languageLabel).join(", ")],
+              ].map(([k, v]) => (
+                <tr key={k}>
+                  <td style={{ padding: "2px 12px 2px 0", color: "#6b7280" }}>{k}</td>
+                  <td style={{ padding: "2px 0" }}>{v}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {migrations.length > 0 && (
+          <div style={{ marginBottom: 12 }}>
+            <strong>{t("import.migrated")}</strong>
+            <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+              {migrations.map((m) => (
+                <li key={m}>{m}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div style={{ marginBottom: 12, color: "#b91c1c" }}>
+            <strong>{t("import.errors")}</strong>
+            <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+              {errors.map((i, k) => (
+                <li key={k}>
+                  <strong>{i.path}:</strong> {i.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {repairs.length > 0 && (
+          <div style={{ marginBottom: 12, color: "#b45309" }}>
+            <strong>{t("import.repairs", { count: repairs.length })}</strong>
+            <ul style={{ margin: "4px 0 0", paddingLeft: 18, maxHeight: 220, overflow: "auto" }}>
+              {repairs.map((i, k) => (
+                <li key={k}>
+                  <strong>{i.path}:</strong> {i.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {p && errors.length === 0 && repairs.length === 0 && migrations.length === 0 && <div style={{ marginBottom: 12, color: "#15803d" }}>{t("import.valid")}</div>}
+
+        {p && <div style={{ marginBottom: 12, color: "#6b7280" }}>{t("import.hint")}</div>}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+          <Button variant="outline" onClick={onCancel}>{t("common.cancel")}</Button>
+          <Button onClick={onConfirm} disabled={!p}>{t("import.confirm")}</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React from "react";
+import { Input } from "./ui";
+import { LANGUAGES, MissingTranslation, ProcessData, languageLabel, missingTranslations, processLanguages, withTranslation } from "./model";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Sprachen eines Prozesses und fehlende Übersetzungen
+ *  ------------------------ */
+interface Props {
+  process: ProcessData;     // inkl. ungespeicherter Änderungen am aktuellen Schritt
+  editLang: string;
+  onEditLang: (lang: string) => void;
+  onChange: (patch: Pick<ProcessData, "languages" | "nameTranslations">) => void;
+  onJump: (stepIndex: number, lang: string) => void;
+}
+
+function describe(m: MissingTranslation, p: ProcessData) {
+  if (m.stepIndex === null) return t("languages.processName");
+  const step = p.steps[m.stepIndex];
+  if (!m.textId) return t("languages.stepTitle", { index: step.index });
+  return t("languages.stepText", { index: step.index, number: `${step.index}.${step.texts.findIndex((x) => x.id === m.textId) + 1}` });
+}
+
+export default function LanguagesPanel(props: Props) {
+  const { process, editLang, onEditLang, onChange, onJump } = props;
+  const languages = processLanguages(process);
+  const [primary, ...others] = languages;
+  const missing = missingTranslations(process);
+
+  function remove(lang: string) {
+    if (!window.confirm(t("languages.confirmRemove", { language: languageLabel(lang) }))) return;
+    onChange({ languages: languages.filter((l) => l !== lang) });
+    if (editLang === lang) onEditLang(primary);
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10, fontSize: 14 }}>
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+        {languages.map((l) => (
+          <span key={l} style={{ display: "inline-flex", gap: 6, alignItems: "center", padding: "2px 8px", borderRadius: 10, background: l === editLang ? "#dbeafe" : "#f3f4f6" }}>
+            <button onClick={() => onEditLang(l)} style={{ border: "none", background: "none", cursor: "pointer", padding: 0, fontSize: 14 }}>
+              {languageLabel(l)}
+              {l === primary && ` (${t("languages.primary")})`}
+            </button>
+            {l !== primary && (
+              <button onClick={() => remove(l)} title={t("common.remove")} style={{ border: "none", background: "none", cursor: "pointer", color: "#6b7280" }}>✕</button>
+            )}
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange({ languages: [...languages, e.target.value] })}
+          style={{ padding: 6, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}
+        >
+          <option value="">{t("languages.add")}</option>
+          {LANGUAGES.filter((l) => !languages.includes(l.code)).map((l) => (
+            <option key={l.code} value={l.code}>{l.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {others.map((l) => (
+        <label key={l} style={{ display: "grid", gap: 4 }}>
+          {t("languages.processName")} ({languageLabel(l)})
+          <Input
+            value={process.nameTranslations?.[l] || ""}
+            onChange={(e) => onChange({ nameTranslations: withTranslation(process.nameTranslations, l, e.target.value) })}
+            placeholder={process.name}
+          />
+        </label>
+      ))}
+
+      {others.map((l) => {
+        const list = missing.filter((m) => m.lang === l);
+        return (
+          <details key={l}>
+            <summary style={{ cursor: "pointer", color: list.length ? "#b45309" : "#15803d" }}>
+              {languageLabel(l)}: {list.length ? t("languages.missing", { count: list.length }) : t("languages.complete")}
+            </summary>
+            <ul style={{ margin: "6px 0 0", paddingLeft: 18, display: "grid", gap: 4 }}>
+              {list.map((m, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => (m.stepIndex === null ? onEditLang(l) : onJump(m.stepIndex, l))}
+                    style={{ border: "none", background: "none", cursor: "pointer", padding: 0, textAlign: "left", color: "#1d4ed8", fontSize: 14 }}
+                  >
+                    {describe(m, process)}
+                  </button>
+                  <span style={{ color: "#6b7280" }}> – „{m.source.length > 40 ? `${m.source.slice(0, 40)} …` : m.source}“</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
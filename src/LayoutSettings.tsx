@@ -0,0 +1,92 @@
+import React, { useRef } from "react";
+import { Button, Input } from "./ui";
+import { PDF_TEMPLATES, PdfLayout, PdfTemplate, languageLabel, pdfTemplateLabel } from "./model";
+import { t } from "./i18n";
+import { toast } from "./Toasts";
+import { DEFAULT_IMAGE_SETTINGS, processPhoto } from "./images";
+
+/** ------------------------
+ *  PDF-Layout: Vorlage, Format, Deckblatt, Inhaltsverzeichnis
+ *  ------------------------ */
+const LOGO_MAX_SIZE = 600; // px – reicht für die Kopfzeile des Deckblatts
+
+const selectStyle: React.CSSProperties = { padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 };
+
+export default function LayoutSettings(props: { layout: PdfLayout; languages: string[]; onChange: (patch: Partial<PdfLayout>) => void }) {
+  const { layout, languages, onChange } = props;
+  const others = languages.slice(1);
+  const logoRef = useRef<HTMLInputElement>(null);
+
+  async function uploadLogo(file: File | null) {
+    if (!file) return;
+    try {
+      const logo = await processPhoto(file, { ...DEFAULT_IMAGE_SETTINGS, maxSize: LOGO_MAX_SIZE, format: "image/jpeg" });
+      onChange({ logo });
+    } catch {
+      toast(t("layout.logoError"));
+    } finally {
+      if (logoRef.current) logoRef.current.value = "";
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8, fontSize: 14 }}>
+      <label style={{ display: "grid", gap: 4 }}>
+        {t("layout.template")}
+        <select value={layout.template} onChange={(e) => onChange({ template: e.target.value as PdfTemplate })} style={selectStyle}>
+          {PDF_TEMPLATES.map((k) => (
+            <option key={k} value={k}>{pdfTemplateLabel(k)}</option>
+          ))}
+        </select>
+      </label>
+      <div style={{ display: "flex", gap: 8 }}>
+        <select value={layout.format} onChange={(e) => onChange({ format: e.target.value as PdfLayout["format"] })} style={selectStyle}>
+          <option value="a4">A4</option>
+          <option value="a5">A5</option>
+        </select>
+        <select value={layout.orientation} onChange={(e) => onChange({ orientation: e.target.value as PdfLayout["orientation"] })} style={selectStyle}>
+          <option value="portrait">{t("layout.portrait")}</option>
+          <option value="landscape">{t("layout.landscape")}</option>
+        </select>
+      </div>
+      {others.length > 0 && (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <select value={layout.languageMode} onChange={(e) => onChange({ languageMode: e.target.value as PdfLayout["languageMode"] })} style={selectStyle}>
+            <option value="separate">{t("layout.separate")}</option>
+            <option value="bilingual">{t("layout.bilingual")}</option>
+          </select>
+          {layout.languageMode === "bilingual" && (
+            <select
+              value={others.includes(layout.secondLanguage || "") ? layout.secondLanguage : others[0]}
+              onChange={(e) => onChange({ secondLanguage: e.target.value })}
+              style={selectStyle}
+            >
+              {others.map((l) => (
+                <option key={l} value={l}>{languageLabel(languages[0])} + {languageLabel(l)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <input type="checkbox" checked={layout.coverPage} onChange={(e) => onChange({ coverPage: e.target.checked })} />
+        {t("layout.coverPage")}
+      </label>
+      <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <input type="checkbox" checked={layout.toc} onChange={(e) => onChange({ toc: e.target.checked })} />
+        {t("layout.toc")}
+      </label>
+      {layout.coverPage && (
+        <>
+          <Input value={layout.company} onChange={(e) => onChange({ company: e.target.value })} placeholder={t("layout.company")} />
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            {layout.logo && <img src={layout.logo} alt="Logo" style={{ maxHeight: 40, maxWidth: 120 }} />}
+            <Button variant="outline" onClick={() => logoRef.current?.click()}>{layout.logo ? t("layout.changeLogo") : t("layout.chooseLogo")}</Button>
+            {layout.logo && <Button variant="outline" onClick={() => onChange({ logo: undefined })}>{t("common.remove")}</Button>}
+            <input ref={logoRef} type="file" accept="image/*" style={{ display: "none" }} onChange={(e) => uploadLogo(e.target.files?.[0] || null)} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from "react";
+import { Button, Input } from "./ui";
+import { approvalStatusLabel } from "./model";
+import { LibraryEntry, deleteProcess, duplicateProcess, listProcesses, renameProcess } from "./storage";
+import { EMPTY_FILTERS, SearchFilters, filtersActive, matchesFilters, searchOutline, searchTerms } from "./search";
+import { FilterBar, Highlight, HitList } from "./Search";
+import { formatDateTime, t } from "./i18n";
+import { toast } from "./Toasts";
+
+/** ------------------------
+ *  Bibliothek: Liste aller lokal gespeicherten Prozesse
+ *  ------------------------ */
+function statusLabel(e: LibraryEntry) {
+  return !e.status || e.status === "draft" ? t("approval.draft") : approvalStatusLabel(e.status);
+}
+
+export default function Library(props: { onOpen: (id: string, stepIndex?: number) => void }) {
+  const { onOpen } = props;
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+
+  async function refresh() {
+    try {
+      setEntries(await listProcesses());
+    } catch {
+      setEntries([]);
+      toast(t("library.loadError"));
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  /** Änderung an der Bibliothek ausführen; Speicherfehler (Kontingent, blockierte Datenbank) als Hinweis */
+  async function change(action: () => Promise<unknown>) {
+    try {
+      await action();
+    } catch {
+      toast(t("library.saveError"));
+    }
+    await refresh();
+  }
+
+  function onDuplicate(id: string) {
+    return change(() => duplicateProcess(id));
+  }
+  function onRename(e: LibraryEntry) {
+    const name = prompt(t("library.renamePrompt"), e.name);
+    if (name === null) return;
+    if (!name.trim()) {
+      toast(t("process.nameMissing"));
+      return;
+    }
+    return change(() => renameProcess(e.id, name.trim()));
+  }
+  function onDelete(e: LibraryEntry) {
+    if (!window.confirm(t("library.confirmDelete", { name: e.name, version: e.version }))) return;
+    return change(() => deleteProcess(e.id));
+  }
+
+  const cell: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #e5e7eb", textAlign: "left" };
+
+  // Ohne Suchbegriff filtert „nur wichtige“ auf Prozesse, die überhaupt Hinweise/Warnungen enthalten
+  const terms = searchTerms(query);
+  const searching = terms.length > 0 || filters.importantOnly;
+  const visible = (entries || []).filter((e) => matchesFilters(e, filters));
+  const results = searching
+    ? visible.map((e) => ({ entry: e, hits: e.outline ? searchOutline(e.outline, terms, filters.importantOnly) : [] })).filter((r) => r.hits.length > 0)
+    : [];
+
+  return (
+    <div style={{ background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+      <h2 style={{ marginTop: 0, fontSize: 18 }}>{t("library.title")}</h2>
+      {entries !== null && entries.length > 0 && (
+        <div style={{ display: "grid", gap: 8, marginBottom: 12 }}>
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t("library.searchPlaceholder")} />
+          <div style={{ display: "flex", gap: 8, alignItems: "center", justifyContent: "space-between", flexWrap: "wrap" }}>
+            <FilterBar filters={filters} onChange={setFilters} processFilters />
+            {(query || filtersActive(filters)) && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setQuery("");
+                  setFilters(EMPTY_FILTERS);
+                }}
+              >
+                {t("library.reset")}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+      {entries === null ? (
+        <div style={{ fontSize: 14, color: "#6b7280" }}>{t("common.loading")}</div>
+      ) : entries.length === 0 ? (
+        <div style={{ fontSize: 14, color: "#6b7280" }}>{t("library.empty")}</div>
+      ) : searching ? (
+        results.length === 0 ? (
+          <div style={{ fontSize: 14, color: "#6b7280" }}>{t("common.noHits")}</div>
+        ) : (
+          <div style={{ display: "grid", gap: 12 }}>
+            <div style={{ fontSize: 14, color: "#6b7280" }}>
+              {t("library.hits", { hits: results.reduce((n, r) => n + r.hits.length, 0), processes: results.length })}
+            </div>
+            {results.map(({ entry: e, hits }) => (
+              <div key={e.id} style={{ borderTop: "1px solid #e5e7eb", paddingTop: 8, display: "grid", gap: 6 }}>
+                <div style={{ display: "flex", gap: 8, alignItems: "center", justifyContent: "space-between" }}>
+                  <div style={{ fontSize: 14 }}>
+                    <strong><Highlight text={e.name} terms={terms} /></strong> · v{e.version} · {statusLabel(e)} · {t("library.changedAt", { date: formatDateTime(e.updatedAt) })}
+                  </div>
+                  <Button onClick={() => onOpen(e.id)}>{t("library.open")}</Button>
+                </div>
+                <HitList hits={hits} terms={terms} limit={10} onJump={(i) => onOpen(e.id, i === null ? undefined : i)} />
+              </div>
+            ))}
+          </div>
+        )
+      ) : visible.length === 0 ? (
+        <div style={{ fontSize: 14, color: "#6b7280" }}>{t("library.noMatch")}</div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead>
+            <tr>
+              <th style={cell}>{t("library.name")}</th>
+              <th style={cell}>{t("library.version")}</th>
+              <th style={cell}>{t("library.status")}</th>
+              <th style={cell}>{t("library.created")}</th>
+              <th style={cell}>{t("library.changed")}</th>
+              <th style={cell} />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((e) => (
+              <tr key={e.id}>
+                <td style={cell}>{e.name}</td>
+                <td style={cell}>{e.version}</td>
+                <td style={cell}>{statusLabel(e)}</td>
+                <td style={cell}>{formatDateTime(e.createdAt)}</td>
+                <td style={cell}>{formatDateTime(e.updatedAt)}</td>
+                <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                  <div style={{ display: "flex", gap: 6, justifyContent: "flex-end" }}>
+                    <Button onClick={() => onOpen(e.id)}>{t("library.open")}</Button>
+                    <Button variant="outline" onClick={() => onDuplicate(e.id)}>{t("library.duplicate")}</Button>
+                    <Button variant="outline" onClick={() => onRename(e)}>{t("library.rename")}</Button>
+                    <Button variant="outline" onClick={() => onDelete(e)}>{t("common.delete")}</Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button, Input } from "./ui";
+import { approvedVersion } from "./approval";
+import { LibraryEntry, listProcesses, loadRecord } from "./storage";
+import { QrTarget, ScanVerdict, baseUrlError, parseQrPayload, scanVerdict } from "./qr";
+import { LabelItem, renderLabelSheet } from "./labels";
+import { loadPdfFonts } from "./fonts";
+import { hasCamera } from "./CameraCapture";
+import { MessageKey, t } from "./i18n";
+import { toast } from "./Toasts";
+
+/** ------------------------
+ *  QR-Codes: Ausdruck scannen bzw. Code eingeben, Prozess öffnen, Etikettenbogen drucken
+ *  ------------------------ */
+/** Erkennung über die BarcodeDetector-API des Browsers (Chrome/Android, Safari); sonst nur Eingabe */
+interface Detector {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+function createDetector(): Detector | null {
+  const Ctor = (window as unknown as { BarcodeDetector?: new (o: { formats: string[] }) => Detector }).BarcodeDetector;
+  return Ctor ? new Ctor({ formats: ["qr_code"] }) : null;
+}
+
+/** Adresse dieser App als Vorschlag für Links in QR-Codes */
+export function appUrl() {
+  return `${window.location.origin}${window.location.pathname}`;
+}
+
+const VERDICT_STYLE: Record<ScanVerdict, { background: string; border: string; color: string }> = {
+  current: { background: "#f0fdf4", border: "#bbf7d0", color: "#166534" },
+  outdated: { background: "#fef2f2", border: "#fecaca", color: "#991b1b" },
+  unreleased: { background: "#fffbeb", border: "#fcd34d", color: "#92400e" },
+  noRelease: { background: "#fffbeb", border: "#fcd34d", color: "#92400e" },
+};
+
+const VERDICT_TEXT: Record<ScanVerdict, MessageKey> = {
+  current: "qr.verdict.current",
+  outdated: "qr.verdict.outdated",
+  unreleased: "qr.verdict.unreleased",
+  noRelease: "qr.verdict.noRelease",
+};
+
+interface Match {
+  entry: LibraryEntry;
+  verdict: ScanVerdict;
+  released?: string;   // aktuell freigegebene Version
+}
+
+function QrScanner(props: { onResult: (text: string) => void; onClose: () => void }) {
+  const { onResult, onClose } = props;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const resultRef = useRef(onResult);
+  resultRef.current = onResult;
+  const [error, setError] = useState<string | null>(null);
+
+  // Kamera öffnen und laufend nach Codes suchen, bis einer erkannt oder abgebrochen wird
+  useEffect(() => {
+    const detector = createDetector();
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: "environment" } }, audio: false })
+      .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = s;
+        const video = videoRef.current;
+        if (!video || !detector) return;
+        video.srcObject = s;
+        video.play().catch(() => undefined);
+        let busy = false;
+        timer = setInterval(async () => {
+          if (busy || !video.videoWidth) return;
+          busy = true;
+          try {
+            const codes = await detector.detect(video);
+            if (codes.length > 0 && !cancelled) {
+              cancelled = true;
+              clearInterval(timer);
+              resultRef.current(codes[0].rawValue);
+            }
+          } catch {
+            // einzelnes Bild nicht auswertbar → nächstes
+          }
+          busy = false;
+        }, 250);
+      })
+      .catch(() => setError(t("camera.unavailable")));
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "#000", display: "flex", flexDirection: "column", zIndex: 10 }}>
+      <div style={{ flex: 1, position: "relative", minHeight: 0 }}>
+        <video ref={videoRef} playsInline muted style={{ width: "100%", height: "100%", objectFit: "contain" }} />
+        <div style={{ position: "absolute", top: 12, left: 0, right: 0, textAlign: "center", color: "#fff", padding: "0 24px" }}>
+          {error || t("qr.scanHint")}
+        </div>
+      </div>
+      <div style={{ display: "flex", padding: 12, justifyContent: "center", background: "#111827" }}>
+        <Button variant="outline" onClick={onClose}>{t("common.cancel")}</Button>
+      </div>
+    </div>
+  );
+}
+
+interface Props {
+  initialCode?: string;        // aus einem geöffneten QR-Link
+  baseUrl: string;
+  onBaseUrl: (url: string) => void;
+  onOpen: (id: string) => void;
+}
+
+export default function Lookup(props: Props) {
+  const { initialCode, baseUrl, onBaseUrl, onOpen } = props;
+  const [code, setCode] = useState(initialCode || "");
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ target: QrTarget; matches: Match[] } | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [canScan, setCanScan] = useState(false);
+  const [urlDraft, setUrlDraft] = useState(baseUrl);
+  const [urlError, setUrlError] = useState<string | null>(null);
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => {
+    if (!createDetector()) return;
+    hasCamera().then(setCanScan);
+  }, []);
+
+  // Code aus einem geöffneten QR-Link nachschlagen; über eine Ref, weil lookup bei jedem Rendern neu entsteht
+  const lookupRef = useRef(lookup);
+  lookupRef.current = lookup;
+  useEffect(() => {
+    if (initialCode) lookupRef.current(initialCode);
+  }, [initialCode]);
+
+  /** Passende Einträge der Bibliothek suchen; eindeutige, aktuelle Treffer direkt öffnen */
+  async function lookup(text: string) {
+    const target = parseQrPayload(text);
+    setResult(null);
+    if (!target) {
+      setCodeError(t("qr.invalid"));
+      return;
+    }
+    setCodeError(null);
+    try {
+      const entries = (await listProcesses()).filter((e) => e.processId === target.id);
+      const matches: Match[] = [];
+      for (const entry of entries) {
+        const rec = await loadRecord(entry.id);
+        if (rec) matches.push({ entry, verdict: scanVerdict(rec.process, target.version), released: approvedVersion(rec.process)?.version });
+      }
+      setResult({ target, matches });
+      if (matches.length === 1 && matches[0].verdict === "current") onOpen(matches[0].entry.id);
+    } catch {
+      toast(t("library.loadError"));
+    }
+  }
+
+  function onScanned(text: string) {
+    setScanning(false);
+    setCode(text);
+    lookup(text);
+  }
+
+  function commitUrl(v: string) {
+    const err = baseUrlError(v);
+    setUrlError(err);
+    if (!err) onBaseUrl(v.trim());
+  }
+
+  /** Je Prozess-ID ein Etikett; bei mehreren Einträgen (z. B. zweimal importiert) zählt der zuletzt geänderte */
+  async function printLabels() {
+    setPrinting(true);
+    try {
+      const items: LabelItem[] = [];
+      for (const e of await listProcesses()) {
+        if (e.processId && !items.some((x) => x.id === e.processId)) items.push({ id: e.processId, name: e.name });
+      }
+      if (items.length === 0) {
+        toast(t("qr.noProcesses"), "info");
+        return;
+      }
+      items.sort((a, b) => a.name.localeCompare(b.name));
+      const fonts = await loadPdfFonts();
+      renderLabelSheet(items, fonts, baseUrl).save(t("labels.fileName"));
+    } catch {
+      toast(t("qr.labelsError"));
+    } finally {
+      setPrinting(false);
+    }
+  }
+
+  return (
+    <div style={{ maxWidth: 520, background: "#fff", border: "1px solid #e5e7eb", borderRadius: 12, padding: 16 }}>
+      <h2 style={{ marginTop: 0, fontSize: 18 }}>{t("qr.title")}</h2>
+      <div style={{ display: "flex", gap: 8 }}>
+        <Input
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setCodeError(null);
+          }}
+          onKeyDown={(e) => e.key === "Enter" && lookup(code)}
+          placeholder={t("qr.codePlaceholder")}
+          style={codeError ? { boxShadow: "0 0 0 2px #fca5a5" } : undefined}
+        />
+        <Button variant="outline" onClick={() => lookup(code)} disabled={!code.trim()}>{t("qr.find")}</Button>
+        {canScan && <Button onClick={() => setScanning(true)}>{t("qr.scan")}</Button>}
+      </div>
+      {codeError && <div style={{ marginTop: 4, fontSize: 12, color: "#b91c1c" }}>{codeError}</div>}
+      {scanning && <QrScanner onResult={onScanned} onClose={() => setScanning(false)} />}
+
+      {result && (
+        <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+          {result.matches.length === 0 && <div style={{ fontSize: 14, color: "#6b7280" }}>{t("qr.notFound")}</div>}
+          {result.matches.map((m) => (
+            <div key={m.entry.id} style={{ ...VERDICT_STYLE[m.verdict], borderWidth: 1, borderStyle: "solid", borderRadius: 10, padding: 10, fontSize: 14 }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                <strong>{m.entry.name}</strong>
+                <Button variant="outline" onClick={() => onOpen(m.entry.id)}>{t("library.open")}</Button>
+              </div>
+              <div role={m.verdict === "current" ? "status" : "alert"} style={{ marginTop: 4 }}>
+                {t(VERDICT_TEXT[m.verdict], { scanned: result.target.version || "–", released: m.released || "–" })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <details style={{ marginTop: 12, fontSize: 14 }}>
+        <summary style={{ cursor: "pointer", color: "#6b7280" }}>{t("qr.settings")}</summary>
+        <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+          <label style={{ fontWeight: 600 }}>{t("qr.baseUrl")}</label>
+          <div style={{ display: "flex", gap: 8 }}>
+            <Input
+              value={urlDraft}
+              onChange={(e) => {
+                setUrlDraft(e.target.value);
+                setUrlError(null);
+              }}
+              onBlur={() => commitUrl(urlDraft)}
+              placeholder={appUrl()}
+              style={urlError ? { boxShadow: "0 0 0 2px #fca5a5" } : undefined}
+            />
+            <Button
+              variant="outline"
+              onClick={() => {
+                setUrlDraft(appUrl());
+                commitUrl(appUrl());
+              }}
+            >
+              {t("qr.thisApp")}
+            </Button>
+          </div>
+          {urlError && <div style={{ fontSize: 12, color: "#b91c1c" }}>{urlError}</div>}
+          <div style={{ fontSize: 12, color: "#6b7280" }}>{t("qr.baseUrlHint")}</div>
+        </div>
+      </details>
+      <div style={{ marginTop: 12 }}>
+        <Button variant="outline" onClick={printLabels} disabled={printing}>{t("qr.printLabels")}</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "./ui";
+import { CropRect, ImageSettings, Rotation, drawRotated, loadImage, renderEdited } from "./images";
+import { t } from "./i18n";
+import { toast } from "./Toasts";
+
+/** ------------------------
+ *  Foto-Editor: drehen und zuschneiden
+ *  ------------------------ */
+const VIEW_MAX = 560; // Anzeigegröße der längsten Kante in px
+
+interface Props {
+  src: string;
+  settings: ImageSettings;
+  onSave: (dataUrl: string) => void;
+  onClose: () => void;
+}
+
+export default function PhotoEditor(props: Props) {
+  const { src, settings, onSave, onClose } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadImage(src).then(setImg, () => toast(t("photo.loadError")));
+  }, [src]);
+
+  // Vorschau inkl. abgedunkeltem Bereich außerhalb des Ausschnitts zeichnen
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!img || !canvas) return;
+    const swap = rotation === 90 || rotation === 270;
+    const s = Math.min(VIEW_MAX / Math.max(img.naturalWidth, img.naturalHeight), 1);
+    const w = Math.round(img.naturalWidth * s);
+    const h = Math.round(img.naturalHeight * s);
+    canvas.width = swap ? h : w;
+    canvas.height = swap ? w : h;
+    const ctx = canvas.getContext("2d")!;
+    drawRotated(ctx, img, rotation, w, h);
+    if (crop) {
+      const x = crop.x * canvas.width;
+      const y = crop.y * canvas.height;
+      const cw = crop.w * canvas.width;
+      const ch = crop.h * canvas.height;
+      ctx.fillStyle = "rgba(0,0,0,0.5)";
+      ctx.fillRect(0, 0, canvas.width, y);
+      ctx.fillRect(0, y + ch, canvas.width, canvas.height - y - ch);
+      ctx.fillRect(0, y, x, ch);
+      ctx.fillRect(x + cw, y, canvas.width - x - cw, ch);
+      ctx.strokeStyle = "#fff";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, cw, ch);
+    }
+  }, [img, rotation, crop]);
+
+  function relPoint(e: React.PointerEvent<HTMLCanvasElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - r.left) / r.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - r.top) / r.height, 0), 1),
+    };
+  }
+
+  function rotate(delta: 90 | -90) {
+    setRotation((r) => (((r + delta + 360) % 360) as Rotation));
+    setCrop(null); // Ausschnitt bezieht sich auf die gedrehte Ansicht
+  }
+
+  async function save() {
+    setBusy(true);
+    try {
+      const usable = crop && crop.w > 0.01 && crop.h > 0.01 ? crop : null;
+      onSave(await renderEdited(src, rotation, usable, settings));
+    } catch {
+      toast(t("photo.editError"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "rgba(17,24,39,0.6)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 10 }}>
+      <div style={{ background: "#fff", borderRadius: 12, padding: 16, maxWidth: "95vw", maxHeight: "95vh", overflow: "auto" }}>
+        <h3 style={{ marginTop: 0 }}>{t("photo.editTitle")}</h3>
+        <canvas
+          ref={canvasRef}
+          style={{ display: "block", maxWidth: "100%", touchAction: "none", cursor: "crosshair" }}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const p = relPoint(e);
+            setDragStart(p);
+            setCrop({ x: p.x, y: p.y, w: 0, h: 0 });
+          }}
+          onPointerMove={(e) => {
+            if (!dragStart) return;
+            const p = relPoint(e);
+            setCrop({
+              x: Math.min(dragStart.x, p.x),
+              y: Math.min(dragStart.y, p.y),
+              w: Math.abs(p.x - dragStart.x),
+              h: Math.abs(p.y - dragStart.y),
+            });
+          }}
+          onPointerUp={() => setDragStart(null)}
+        />
+        <div style={{ fontSize: 12, color: "#6b7280", marginTop: 6 }}>{t("photo.cropHint")}</div>
+        <div style={{ marginTop: 12, display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <Button variant="outline" onClick={() => rotate(-90)}>⟲ {t("photo.rotateLeft")}</Button>
+          <Button variant="outline" onClick={() => rotate(90)}>⟳ {t("photo.rotateRight")}</Button>
+          <Button variant="outline" onClick={() => setCrop(null)} disabled={!crop}>{t("photo.resetCrop")}</Button>
+          <div style={{ flex: 1 }} />
+          <Button variant="outline" onClick={onClose}>{t("common.cancel")}</Button>
+          <Button onClick={save} disabled={!img || busy}>{t("common.apply")}</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
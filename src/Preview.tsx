@@ -0,0 +1,46 @@
+import React from "react";
+import { StepData, formatDuration, formatResource, markersForText, severityInfo, severityLabel, stepHeading } from "./model";
+import AnnotatedImage from "./AnnotatedImage";
+
+/** ------------------------
+ *  Vorschau eines Prozessstands (Editor-Seitenleiste, Versionsansicht)
+ *  ------------------------ */
+export default function ProcessPreview(props: { steps: StepData[] }) {
+  return (
+    <>
+      {props.steps.map((s) => {
+        if (s.photos.length === 0 && s.texts.length === 0) return null;
+        return (
+          <div key={s.id} style={{ marginBottom: 12 }}>
+            <strong>{stepHeading(s)}</strong>
+            {(s.durationMin || (s.resources || []).length > 0) && (
+              <div style={{ fontSize: 12, color: "#6b7280" }}>
+                {s.durationMin ? `⏱ ${formatDuration(s.durationMin)}` : ""}
+                {s.durationMin && (s.resources || []).length > 0 ? " · " : ""}
+                {(s.resources || []).map((r) => formatResource(r)).join(", ")}
+              </div>
+            )}
+            {s.photos.length > 0 && (
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, marginTop: 6 }}>
+                {s.photos.map((src, i) => (
+                  <AnnotatedImage key={i} src={src} annotations={s.annotations?.[i]} style={{ width: "100%", borderRadius: 8, border: "1px solid #e5e7eb" }} />
+                ))}
+              </div>
+            )}
+            {s.texts.length > 0 && (
+              <ol style={{ marginTop: 6, paddingLeft: 18 }}>
+                {s.texts.map((t, i) => (
+                  <li key={t.id} style={{ color: t.severity !== "none" ? severityInfo(t.severity).color : undefined, fontWeight: t.severity !== "none" ? 700 : 400 }}>
+                    {s.index}.{i + 1} {t.severity !== "none" && `${severityLabel(t.severity).toUpperCase()}: `}
+                    {t.content}
+                    {markersForText(s, t.id).map((m) => ` [${m}]`)}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import React from "react";
+import { Input } from "./ui";
+import { APPROVAL_STATUS, approvalStatusLabel, severityInfo } from "./model";
+import { t } from "./i18n";
+import { SearchFilters, SearchHit, highlightRanges } from "./search";
+
+/** ------------------------
+ *  Suche: hervorgehobene Treffer, Trefferliste, Filterzeile
+ *  ------------------------ */
+export function Highlight(props: { text: string; terms: string[] }) {
+  const { text, terms } = props;
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  for (const [start, end] of highlightRanges(text, terms)) {
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(
+      <mark key={start} style={{ background: "#fde68a", padding: 0 }}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    pos = end;
+  }
+  parts.push(text.slice(pos));
+  return <>{parts}</>;
+}
+
+export function HitList(props: { hits: SearchHit[]; terms: string[]; onJump: (stepIndex: number | null) => void; limit?: number }) {
+  const { hits, terms, onJump, limit = 50 } = props;
+  return (
+    <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 4, fontSize: 14 }}>
+      {hits.slice(0, limit).map((h, i) => (
+        <li
+          key={i}
+          onClick={() => onJump(h.stepIndex)}
+          style={{ cursor: "pointer", padding: "4px 6px", borderRadius: 6, background: "#f9fafb" }}
+          title={h.stepIndex === null ? undefined : t("search.jump")}
+        >
+          <span style={{ color: "#6b7280" }}>{h.label}: </span>
+          <span style={{ color: h.severity && h.severity !== "none" ? severityInfo(h.severity).color : undefined }}>
+            <Highlight text={h.text} terms={terms} />
+          </span>
+        </li>
+      ))}
+      {hits.length > limit && <li style={{ color: "#6b7280" }}>{t("search.more", { count: hits.length - limit })}</li>}
+    </ul>
+  );
+}
+
+const selectStyle: React.CSSProperties = { padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 };
+
+/** Filter für die Bibliothekssuche; `processFilters` = Status/Version/Datum anzeigen */
+export function FilterBar(props: { filters: SearchFilters; onChange: (f: SearchFilters) => void; processFilters?: boolean }) {
+  const { filters, onChange, processFilters } = props;
+  const set = (patch: Partial<SearchFilters>) => onChange({ ...filters, ...patch });
+  return (
+    <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", fontSize: 14 }}>
+      <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+        <input type="checkbox" checked={filters.importantOnly} onChange={(e) => set({ importantOnly: e.target.checked })} />
+        {t("search.importantOnly")}
+      </label>
+      {processFilters && (
+        <>
+          <select value={filters.status} onChange={(e) => set({ status: e.target.value as SearchFilters["status"] })} style={selectStyle}>
+            <option value="">{t("search.allStatus")}</option>
+            <option value="draft">{t("approval.draft")}</option>
+            {APPROVAL_STATUS.map((s) => (
+              <option key={s.key} value={s.key}>{approvalStatusLabel(s.key)}</option>
+            ))}
+          </select>
+          <div style={{ width: 110 }}>
+            <Input value={filters.version} onChange={(e) => set({ version: e.target.value })} placeholder={t("search.version")} />
+          </div>
+          <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            {t("search.changedFrom")}
+            <input type="date" value={filters.from} onChange={(e) => set({ from: e.target.value })} style={selectStyle} />
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            {t("search.changedTo")}
+            <input type="date" value={filters.to} onChange={(e) => set({ to: e.target.value })} style={selectStyle} />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from "react";
+import { Button, Input, Textarea } from "./ui";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Unterschrift: Name + auf Canvas gezeichnete Unterschrift (bzw. Begründung bei Ablehnung)
+ *  ------------------------ */
+const WIDTH = 420;
+const HEIGHT = 150; // Seitenverhältnis passt zur Unterschriftszeile im Freigabeblock
+
+interface Props {
+  title: string;
+  defaultName: string;
+  mode: "sign" | "reject";
+  /** Liefert ggf. eine Fehlermeldung (z. B. Vier-Augen-Prinzip), die im Dialog angezeigt wird */
+  onConfirm: (result: { name: string; image?: string; comment?: string }) => string | null | void;
+  onCancel: () => void;
+}
+
+export default function SignatureDialog(props: Props) {
+  const { title, defaultName, mode, onConfirm, onCancel } = props;
+  const [name, setName] = useState(defaultName);
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [hasInk, setHasInk] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const last = useRef<{ x: number; y: number } | null>(null);
+
+  function clear() {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    setHasInk(false);
+  }
+
+  function point(e: React.PointerEvent<HTMLCanvasElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    return { x: ((e.clientX - r.left) / r.width) * WIDTH, y: ((e.clientY - r.top) / r.height) * HEIGHT };
+  }
+  function onDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    last.current = point(e);
+  }
+  function onMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !last.current) return;
+    const p = point(e);
+    ctx.strokeStyle = "#111827";
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    ctx.moveTo(last.current.x, last.current.y);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+    last.current = p;
+    setHasInk(true);
+    setError(null);
+  }
+  function onUp() {
+    last.current = null;
+  }
+
+  function confirm() {
+    if (!name.trim()) {
+      setError(t("signature.error.name"));
+      return;
+    }
+    if (mode === "sign") {
+      if (!hasInk) {
+        setError(t("signature.error.ink"));
+        return;
+      }
+      setError(onConfirm({ name: name.trim(), image: canvasRef.current!.toDataURL("image/png") }) || null);
+    } else {
+      if (!comment.trim()) {
+        setError(t("signature.error.reason"));
+        return;
+      }
+      setError(onConfirm({ name: name.trim(), comment: comment.trim() }) || null);
+    }
+  }
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "rgba(17,24,39,0.6)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 10 }}>
+      <div style={{ background: "#fff", borderRadius: 12, padding: 16, width: WIDTH + 32, maxWidth: "95vw", fontSize: 14 }}>
+        <h3 style={{ marginTop: 0 }}>{title}</h3>
+        <Input
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          placeholder={t("signature.name")}
+        />
+        <div style={{ height: 8 }} />
+        {mode === "sign" ? (
+          <>
+            <canvas
+              ref={canvasRef}
+              width={WIDTH}
+              height={HEIGHT}
+              onPointerDown={onDown}
+              onPointerMove={onMove}
+              onPointerUp={onUp}
+              onPointerCancel={onUp}
+              style={{ width: "100%", background: "#fff", border: "1px dashed #9ca3af", borderRadius: 10, touchAction: "none", cursor: "crosshair" }}
+            />
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", color: "#6b7280" }}>
+              <span>{t("signature.signHere")}</span>
+              <Button variant="outline" onClick={clear} disabled={!hasInk}>{t("signature.clear")}</Button>
+            </div>
+          </>
+        ) : (
+          <Textarea
+            value={comment}
+            onChange={(e) => {
+              setComment(e.target.value);
+              setError(null);
+            }}
+            placeholder={t("signature.reason")}
+          />
+        )}
+        {error && <div role="alert" style={{ color: "#b91c1c", marginTop: 8 }}>{error}</div>}
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginTop: 12 }}>
+          <Button variant="outline" onClick={onCancel}>{t("common.cancel")}</Button>
+          <Button onClick={confirm}>{mode === "sign" ? t("signature.sign") : t("signature.reject")}</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./ui";
+import { StepData, stepHeading } from "./model";
+import { LibraryStep, StepUsage, newLibraryStep, updateLibraryStep } from "./templates";
+import { deleteLibraryStep, listProcesses, saveLibraryStep } from "./storage";
+import { t } from "./i18n";
+import { toast } from "./Toasts";
+
+/** ------------------------
+ *  Schrittbibliothek: Schritte speichern, einfügen, Verwendung und veraltete Kopien
+ *  ------------------------ */
+interface Props {
+  steps: LibraryStep[];
+  currentStep: StepData;    // aktueller Schritt inkl. ungespeicherter Puffer
+  onChanged: () => void;    // Bibliothek neu laden
+  onLink: (origin: NonNullable<StepData["origin"]>) => void;
+  onInsert: (ls: LibraryStep) => void;
+}
+
+export default function StepLibraryPanel(props: Props) {
+  const { steps, currentStep, onChanged, onLink, onInsert } = props;
+  const [usages, setUsages] = useState<Record<string, StepUsage[]>>({});
+  const linked = steps.find((s) => s.id === currentStep.origin?.libraryId);
+  const empty = currentStep.photos.length === 0 && currentStep.texts.length === 0;
+
+  // Verwendung aus den gespeicherten Listendaten aller Prozesse
+  useEffect(() => {
+    listProcesses()
+      .then((entries) => {
+        const out: Record<string, StepUsage[]> = {};
+        for (const e of entries) {
+          for (const o of e.stepOrigins || []) {
+            (out[o.libraryId] = out[o.libraryId] || []).push({ processId: e.id, processName: `${e.name} (v${e.version})`, revision: o.revision });
+          }
+        }
+        setUsages(out);
+      })
+      .catch(() => setUsages({}));
+  }, [steps]);
+
+  async function saveCurrent() {
+    const name = prompt(t("stepLibrary.namePrompt"), currentStep.title || stepHeading(currentStep));
+    if (name === null) return;
+    if (!name.trim()) {
+      toast(t("stepLibrary.nameMissing"));
+      return;
+    }
+    const ls = newLibraryStep(currentStep, name.trim());
+    try {
+      await saveLibraryStep(ls);
+    } catch {
+      toast(t("stepLibrary.saveError"));
+      return;
+    }
+    onLink({ libraryId: ls.id, revision: ls.revision });
+    onChanged();
+  }
+
+  async function updateFromCurrent(ls: LibraryStep) {
+    if (!window.confirm(t("stepLibrary.confirmUpdate", { name: ls.name, revision: ls.revision + 1 }))) return;
+    const next = updateLibraryStep(ls, currentStep);
+    try {
+      await saveLibraryStep(next);
+    } catch {
+      toast(t("stepLibrary.updateError"));
+      return;
+    }
+    onLink({ libraryId: next.id, revision: next.revision });
+    onChanged();
+  }
+
+  async function onDelete(ls: LibraryStep) {
+    const used = (usages[ls.id] || []).length;
+    if (!window.confirm(`${t("stepLibrary.confirmDelete", { name: ls.name })}${used ? ` ${t("stepLibrary.copiesKept", { count: used })}` : ""}`)) return;
+    await deleteLibraryStep(ls.id);
+    onChanged();
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8, fontSize: 14 }}>
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+        <Button variant="outline" onClick={saveCurrent} disabled={empty}>{t("stepLibrary.saveCurrent")}</Button>
+        {linked && <Button variant="outline" onClick={() => updateFromCurrent(linked)}>{t("stepLibrary.update", { name: linked.name })}</Button>}
+      </div>
+      {steps.length === 0 ? (
+        <div style={{ color: "#6b7280" }}>{t("stepLibrary.empty")}</div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 6 }}>
+          {steps.map((ls) => {
+            const used = usages[ls.id] || [];
+            const outdated = used.filter((u) => u.revision < ls.revision);
+            return (
+              <li key={ls.id} style={{ borderTop: "1px solid #e5e7eb", paddingTop: 6 }}>
+                <div>
+                  <strong>{ls.name}</strong> · {t("stepLibrary.revision", { revision: ls.revision })} · {t("stepLibrary.contents", { photos: ls.step.photos.length, texts: ls.step.texts.length })}
+                </div>
+                {used.length > 0 && (
+                  <details style={{ color: "#6b7280" }}>
+                    <summary>
+                      {t("stepLibrary.usedIn", { count: used.length })}
+                      {outdated.length > 0 && <span style={{ color: "#b45309" }}> · {t("stepLibrary.outdatedCount", { count: outdated.length })}</span>}
+                    </summary>
+                    <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+                      {used.map((u, i) => (
+                        <li key={i} style={{ color: u.revision < ls.revision ? "#b45309" : undefined }}>
+                          {u.processName} – {t("stepLibrary.revision", { revision: u.revision })}
+                          {u.revision < ls.revision && ` (${t("stepLibrary.outdated")})`}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+                  <Button variant="outline" onClick={() => onInsert(ls)}>{t("stepLibrary.insert")}</Button>
+                  <Button variant="outline" onClick={() => onDelete(ls)}>{t("common.delete")}</Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
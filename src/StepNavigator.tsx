@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { Button } from "./ui";
+import { StepData } from "./model";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Schritt-Navigator: springen, verschieben (Drag & Drop / Pfeile), einfügen, löschen
+ *  ------------------------ */
+interface Props {
+  steps: StepData[];
+  currentIndex: number;
+  onJump: (i: number) => void;
+  onMove: (from: number, to: number) => void;
+  onInsert: (at: number) => void;
+  onDelete: (i: number) => void;
+}
+
+const small: React.CSSProperties = { padding: "2px 8px", fontSize: 12 };
+
+export default function StepNavigator(props: Props) {
+  const { steps, currentIndex, onJump, onMove, onInsert, onDelete } = props;
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dragOver, setDragOver] = useState<number | null>(null);
+
+  return (
+    <ol style={{ margin: 0, padding: 0, listStyle: "none", display: "grid", gap: 6 }}>
+      {steps.map((s, i) => {
+        const active = i === currentIndex;
+        const empty = s.photos.length === 0 && s.texts.length === 0;
+        return (
+          <li
+            key={s.id}
+            draggable
+            onDragStart={(e) => {
+              setDragFrom(i);
+              e.dataTransfer.effectAllowed = "move";
+            }}
+            onDragOver={(e) => {
+              if (dragFrom === null) return;
+              e.preventDefault();
+              setDragOver(i);
+            }}
+            onDragLeave={() => setDragOver((o) => (o === i ? null : o))}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragFrom !== null && dragFrom !== i) onMove(dragFrom, i);
+              setDragFrom(null);
+              setDragOver(null);
+            }}
+            onDragEnd={() => {
+              setDragFrom(null);
+              setDragOver(null);
+            }}
+            style={{
+              border: `1px solid ${active ? "#111827" : "#e5e7eb"}`,
+              borderTop: dragOver === i && dragFrom !== i ? "3px solid #2563eb" : undefined,
+              borderRadius: 10,
+              padding: 8,
+              background: active ? "#f3f4f6" : "#fff",
+              opacity: dragFrom === i ? 0.5 : 1,
+              cursor: "grab",
+            }}
+          >
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }} onClick={() => onJump(i)}>
+              {s.photos[0] ? (
+                <img src={s.photos[0]} alt="" style={{ width: 40, height: 40, objectFit: "cover", borderRadius: 6 }} />
+              ) : (
+                <div style={{ width: 40, height: 40, borderRadius: 6, background: "#f3f4f6" }} />
+              )}
+              <div style={{ flex: 1, minWidth: 0, fontSize: 14 }}>
+                <strong>{t("step.word")} {s.index}</strong>
+                <div style={{ color: "#6b7280", whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+                  {empty ? t("navigator.empty") : s.texts[0]?.content || t("navigator.photos", { count: s.photos.length })}
+                </div>
+              </div>
+            </div>
+            <div style={{ marginTop: 6, display: "flex", gap: 4, flexWrap: "wrap" }}>
+              <Button variant="outline" style={small} title={t("navigator.up")} disabled={i === 0} onClick={() => onMove(i, i - 1)}>↑</Button>
+              <Button variant="outline" style={small} title={t("navigator.down")} disabled={i === steps.length - 1} onClick={() => onMove(i, i + 1)}>↓</Button>
+              <Button variant="outline" style={small} onClick={() => onInsert(i)}>{t("navigator.insertBefore")}</Button>
+              <Button variant="outline" style={small} onClick={() => onInsert(i + 1)}>{t("navigator.insertAfter")}</Button>
+              <Button
+                variant="outline"
+                style={small}
+                onClick={() => {
+                  if (empty || window.confirm(t("navigator.confirmDelete", { index: s.index }))) onDelete(i);
+                }}
+              >
+                {t("common.delete")}
+              </Button>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
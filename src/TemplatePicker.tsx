@@ -0,0 +1,46 @@
+import React from "react";
+import { Button, Input } from "./ui";
+import { ProcessTemplate, placeholders } from "./templates";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Vorlage beim Anlegen wählen und Platzhalter ausfüllen
+ *  ------------------------ */
+interface Props {
+  templates: ProcessTemplate[];
+  selectedId: string;       // "" = leerer Prozess
+  values: Record<string, string>;
+  onSelect: (id: string) => void;
+  onValue: (name: string, value: string) => void;
+  onDelete: (t: ProcessTemplate) => void;
+}
+
+export default function TemplatePicker(props: Props) {
+  const { templates, selectedId, values, onSelect, onValue, onDelete } = props;
+  const selected = templates.find((x) => x.id === selectedId);
+  const names = selected ? placeholders(selected.process) : [];
+
+  if (templates.length === 0) return null;
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <label style={{ fontWeight: 600 }}>{t("templates.template")}</label>
+      <div style={{ display: "flex", gap: 8 }}>
+        <select value={selectedId} onChange={(e) => onSelect(e.target.value)} style={{ flex: 1, padding: 8, borderRadius: 10, border: "1px solid #d1d5db", fontSize: 14 }}>
+          <option value="">{t("templates.empty")}</option>
+          {templates.map((x) => (
+            <option key={x.id} value={x.id}>
+              {x.name} ({t("templates.steps", { count: x.process.steps.length })})
+            </option>
+          ))}
+        </select>
+        {selected && <Button variant="outline" onClick={() => onDelete(selected)}>{t("templates.delete")}</Button>}
+      </div>
+      {names.map((n) => (
+        <label key={n} style={{ display: "grid", gridTemplateColumns: "140px 1fr", gap: 8, alignItems: "center", fontSize: 14 }}>
+          {n}
+          <Input value={values[n] || ""} onChange={(e) => onValue(n, e.target.value)} placeholder={t("templates.replaces", { placeholder: `{{${n}}}` })} />
+        </label>
+      ))}
+    </div>
+  );
+}
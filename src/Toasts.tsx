@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from "react";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Hinweise ohne Blockieren (statt alert): unten rechts, verschwinden von selbst
+ *  ------------------------ */
+export type ToastKind = "error" | "success" | "info";
+
+interface ToastItem {
+  id: number;
+  kind: ToastKind;
+  message: string;
+}
+
+const DURATION: Record<ToastKind, number> = { error: 8000, success: 4000, info: 5000 };
+const COLORS: Record<ToastKind, { background: string; border: string; color: string }> = {
+  error: { background: "#fef2f2", border: "#fecaca", color: "#991b1b" },
+  success: { background: "#f0fdf4", border: "#bbf7d0", color: "#166534" },
+  info: { background: "#eff6ff", border: "#bfdbfe", color: "#1e3a8a" },
+};
+
+let items: ToastItem[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((l) => l());
+}
+
+function dismiss(id: number) {
+  items = items.filter((x) => x.id !== id);
+  emit();
+}
+
+/** Meldung anzeigen; Fehler bleiben länger stehen */
+export function toast(message: string, kind: ToastKind = "error") {
+  const id = nextId++;
+  items = [...items, { id, kind, message }];
+  emit();
+  setTimeout(() => dismiss(id), DURATION[kind]);
+}
+
+export default function Toasts() {
+  const [list, setList] = useState(items);
+
+  useEffect(() => {
+    const update = () => setList(items);
+    listeners.add(update);
+    return () => {
+      listeners.delete(update);
+    };
+  }, []);
+
+  return (
+    <div aria-live="polite" style={{ position: "fixed", right: 16, bottom: 16, zIndex: 1000, display: "grid", gap: 8, maxWidth: 380 }}>
+      {list.map((x) => (
+        <div
+          key={x.id}
+          role={x.kind === "error" ? "alert" : "status"}
+          style={{ ...COLORS[x.kind], borderWidth: 1, borderStyle: "solid", borderRadius: 12, padding: "10px 12px", fontSize: 14, boxShadow: "0 4px 12px rgba(0,0,0,0.08)", display: "flex", gap: 8, alignItems: "flex-start" }}
+        >
+          <span style={{ flex: 1 }}>{x.message}</span>
+          <button
+            onClick={() => dismiss(x.id)}
+            title={t("common.close")}
+            style={{ border: "none", background: "transparent", cursor: "pointer", color: "inherit", fontSize: 16, lineHeight: 1 }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
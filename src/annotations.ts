@@ -0,0 +1,92 @@
+import { Annotation, StepData } from "./model";
+import { loadImage, toJpeg } from "./images";
+import { PdfImage, pdfImageFormat } from "./pdf";
+
+/** ------------------------
+ *  Foto-Markierungen zeichnen (Editor, Vorschau, PDF)
+ *  ------------------------ */
+export const ANNOTATION_COLORS = ["#dc2626", "#f59e0b", "#16a34a", "#2563eb", "#111827", "#ffffff"];
+
+/** Markierungen in ein Canvas der Größe w×h zeichnen; Strichstärken skalieren mit der Bildgröße */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[], w: number, h: number) {
+  const unit = Math.max(w, h) / 200;
+  ctx.save();
+  ctx.lineWidth = Math.max(unit * 1.2, 2);
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  for (const a of annotations) {
+    const x1 = a.x1 * w;
+    const y1 = a.y1 * h;
+    const x2 = a.x2 * w;
+    const y2 = a.y2 * h;
+    ctx.strokeStyle = a.color;
+    ctx.fillStyle = a.color;
+    if (a.kind === "arrow") {
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = unit * 6;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(x2, y2);
+      ctx.lineTo(x2 - head * Math.cos(angle - Math.PI / 7), y2 - head * Math.sin(angle - Math.PI / 7));
+      ctx.lineTo(x2 - head * Math.cos(angle + Math.PI / 7), y2 - head * Math.sin(angle + Math.PI / 7));
+      ctx.closePath();
+      ctx.fill();
+    } else if (a.kind === "rect") {
+      ctx.strokeRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+    } else if (a.kind === "circle") {
+      ctx.beginPath();
+      ctx.ellipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2, 0, 0, Math.PI * 2);
+      ctx.stroke();
+    } else if (a.kind === "marker") {
+      const r = unit * 5;
+      ctx.beginPath();
+      ctx.arc(x1, y1, r, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = a.color.toLowerCase() === "#ffffff" ? "#111827" : "#fff";
+      ctx.font = `bold ${Math.round(r * 1.2)}px sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(a.text || "", x1, y1 + r * 0.05);
+    } else if (a.kind === "label" && a.text) {
+      const size = Math.round(unit * 6);
+      ctx.font = `bold ${size}px sans-serif`;
+      ctx.textAlign = "left";
+      ctx.textBaseline = "middle";
+      const pad = size * 0.3;
+      const tw = ctx.measureText(a.text).width;
+      ctx.fillStyle = "rgba(255,255,255,0.85)";
+      ctx.fillRect(x1 - pad, y1 - size / 2 - pad, tw + pad * 2, size + pad * 2);
+      ctx.fillStyle = a.color.toLowerCase() === "#ffffff" ? "#111827" : a.color;
+      ctx.fillText(a.text, x1, y1);
+    }
+  }
+  ctx.restore();
+}
+
+/** Foto mit eingebrannten Markierungen als DataURL; ohne Markierungen unverändert */
+export async function renderAnnotated(src: string, annotations: Annotation[] | undefined) {
+  if (!annotations || annotations.length === 0) return src;
+  const img = await loadImage(src);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0);
+  drawAnnotations(ctx, annotations, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.9);
+}
+
+/** Bildquelle für den PDF-Export: Markierungen einbrennen, Format bestimmen, Maße lesen */
+export async function pdfImage(step: StepData, photoIndex: number): Promise<PdfImage | null> {
+  try {
+    const burned = await renderAnnotated(step.photos[photoIndex], step.annotations?.[photoIndex]);
+    const img = await loadImage(burned);
+    const format = pdfImageFormat(burned);
+    return { data: format ? burned : toJpeg(img), format: format || "JPEG", width: img.width, height: img.height };
+  } catch {
+    return null;
+  }
+}
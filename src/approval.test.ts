@@ -0,0 +1,94 @@
+import { applyApproval, approvalError, releasedVersion, submitVersion } from "./approval";
+import { ProcessData, Signature, approvalOf } from "./model";
+
+function process(version = "1.0"): ProcessData {
+  return {
+    id: "0b8582aa-f029-4fdc-809d-93ddaf4064e9",
+    name: "Montage",
+    version,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    steps: [{ id: "s1", index: 1, photos: [], texts: [{ id: "t1", content: "Schraube lösen", severity: "none" }] }],
+  };
+}
+
+function sig(name: string): Signature {
+  return { name, date: "2024-01-02T00:00:00.000Z" };
+}
+
+const submission = { bump: "minor" as const, author: " Anna ", note: "Erstfassung" };
+
+describe("submitVersion", () => {
+  it("übernimmt bei der ersten Einreichung die eingegebene Version", () => {
+    const p = process("2.3");
+    expect(submitVersion(p, submission)).toBe("created");
+    expect(p.version).toBe("2.3");
+    expect(p.history).toHaveLength(1);
+    expect(p.history![0]).toMatchObject({ version: "2.3", author: "Anna", note: "Erstfassung", approval: { status: "review" } });
+  });
+
+  it("erhöht die Version nur bei geändertem Inhalt", () => {
+    const p = process("1.9");
+    submitVersion(p, submission);
+    expect(submitVersion(p, submission)).toBe("unchanged");
+    expect(p.version).toBe("1.9");
+    expect(p.history).toHaveLength(1);
+
+    p.steps[0].texts[0].content = "Schraube mit 10 Nm lösen";
+    expect(submitVersion(p, { ...submission, note: "Drehmoment" })).toBe("created");
+    expect(p.version).toBe("1.10");
+    expect(p.history!.map((h) => h.version)).toEqual(["1.9", "1.10"]);
+  });
+
+  it("erkennt unveränderte Prozesse mit übersetztem Namen", () => {
+    const p = { ...process(), languages: ["de", "en"], nameTranslations: { en: "Assembly" } };
+    submitVersion(p, submission);
+    expect(p.history![0].nameTranslations).toEqual({ en: "Assembly" });
+    expect(submitVersion(p, submission)).toBe("unchanged");
+    expect(p.version).toBe("1.0");
+
+    p.history = applyApproval(applyApproval(p.history!, "review", sig("Ben")), "approve", sig("Carla"));
+    expect(releasedVersion(p)?.version).toBe("1.0");
+
+    p.nameTranslations = { en: "Assembly line" };
+    expect(releasedVersion(p)).toBeUndefined();
+    expect(submitVersion(p, submission)).toBe("created");
+    expect(p.version).toBe("1.1");
+  });
+
+  it("folgt der gewählten Stufe und erhält dreistellige Versionen", () => {
+    const p = process("1.2.3");
+    submitVersion(p, submission);
+    p.name = "Montage Linie 2";
+    submitVersion(p, { ...submission, bump: "major" });
+    expect(p.version).toBe("2.0.0");
+    p.name = "Montage Linie 3";
+    submitVersion(p, { ...submission, bump: "patch" });
+    expect(p.version).toBe("2.0.1");
+  });
+
+  it("reicht eine abgelehnte Version unverändert mit gleicher Nummer erneut ein", () => {
+    const p = process();
+    submitVersion(p, submission);
+    p.history = applyApproval(p.history!, "reject", { ...sig("Ben"), comment: "Foto fehlt" });
+    expect(submitVersion(p, { ...submission, note: "" })).toBe("resubmitted");
+    expect(p.history).toHaveLength(1);
+    expect(p.history![0].version).toBe("1.0");
+    expect(p.history![0].note).toBe("Erstfassung");
+    expect(approvalOf(p.history![0])).toMatchObject({ status: "review", rejected: { name: "Ben", comment: "Foto fehlt" } });
+  });
+});
+
+describe("approvalError", () => {
+  it("verlangt verschiedene Personen für Erstellen, Prüfen und Freigeben", () => {
+    const p = process();
+    submitVersion(p, submission);
+    expect(approvalError(p, "approve", "Ben")).not.toBeNull();
+    expect(approvalError(p, "review", "anna")).not.toBeNull();
+    expect(approvalError(p, "review", "Ben")).toBeNull();
+
+    p.history = applyApproval(p.history!, "review", sig("Ben"));
+    expect(approvalError(p, "approve", "Ben")).not.toBeNull();
+    expect(approvalError(p, "approve", "Anna")).not.toBeNull();
+    expect(approvalError(p, "approve", "Carla")).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { t } from "./i18n";
+import { ProcessData, Signature, VersionBump, VersionSnapshot, approvalOf, bumpVersion, contentKey } from "./model";
+
+/** ------------------------
+ *  Freigabe-Workflow: In Prüfung → (geprüft) → Freigegeben → Veraltet; Ablehnung mit Kommentar
+ *  ------------------------ */
+export type ApprovalAction = "review" | "approve" | "reject";
+
+export function latestVersion(p: Pick<ProcessData, "history">): VersionSnapshot | null {
+  const history = p.history || [];
+  return history[history.length - 1] || null;
+}
+
+/** Zuletzt freigegebene Version; ältere Freigaben sind beim Freigeben veraltet */
+export function approvedVersion(p: Pick<ProcessData, "history">): VersionSnapshot | null {
+  return (p.history || []).filter((h) => approvalOf(h).status === "approved").pop() || null;
+}
+
+/** Welche Aktion für die letzte Version als Nächstes ansteht; null = nichts zu tun */
+export function pendingAction(p: Pick<ProcessData, "history">): "review" | "approve" | null {
+  const last = latestVersion(p);
+  if (!last) return null;
+  const a = approvalOf(last);
+  if (a.status !== "review") return null;
+  return a.reviewed ? "approve" : "review";
+}
+
+/** Vier-Augen-Prinzip und Reihenfolge prüfen; liefert Fehlermeldung oder null */
+export function approvalError(p: Pick<ProcessData, "history">, action: ApprovalAction, name: string) {
+  const last = latestVersion(p);
+  if (!last) return t("approval.error.noVersion");
+  const a = approvalOf(last);
+  const same = (other?: string) => !!other && other.trim().toLowerCase() === name.trim().toLowerCase();
+  if (!name.trim()) return t("approval.error.name");
+  if (a.status !== "review") return t("approval.error.notInReview");
+  if (action === "review") {
+    if (a.reviewed) return t("approval.error.alreadyReviewed");
+    if (same(last.author)) return t("approval.error.reviewerIsAuthor");
+  }
+  if (action === "approve") {
+    if (!a.reviewed) return t("approval.error.notReviewed");
+    if (same(a.reviewed.name)) return t("approval.error.approverIsReviewer");
+    if (same(last.author)) return t("approval.error.approverIsAuthor");
+  }
+  return null;
+}
+
+/** Aktion auf die letzte Version anwenden; beim Freigeben werden frühere Versionen veraltet */
+export function applyApproval(history: VersionSnapshot[], action: ApprovalAction, sig: Signature): VersionSnapshot[] {
+  const lastIndex = history.length - 1;
+  return history.map((h, i) => {
+    const a = approvalOf(h);
+    if (i < lastIndex) {
+      return action === "approve" && (a.status === "approved" || a.status === "review") ? { ...h, approval: { ...a, status: "obsolete" } } : h;
+    }
+    if (action === "review") return { ...h, approval: { ...a, reviewed: sig } };
+    if (action === "approve") return { ...h, approval: { ...a, status: "approved", approved: sig } };
+    return { ...h, approval: { status: "rejected", reviewed: a.reviewed, rejected: sig } };
+  });
+}
+
+/** Angaben zum Einreichen einer Version */
+export interface Submission {
+  bump: VersionBump;
+  author: string;
+  note: string;
+}
+
+/** "created" = neue Version, "resubmitted" = unverändert nach Ablehnung, "unchanged" = nichts einzureichen */
+export type SubmitResult = "created" | "resubmitted" | "unchanged";
+
+/** Stand zur Prüfung einreichen (ändert `p`). Nur bei inhaltlicher Änderung gegenüber der letzten Version
+ *  neue Version + Snapshot; die erste Einreichung erhält die beim Anlegen eingegebene Version. */
+export function submitVersion(p: ProcessData, s: Submission): SubmitResult {
+  const history = p.history || [];
+  const last = history[history.length - 1];
+  if (!last || contentKey(last) !== contentKey(p)) {
+    if (last) p.version = bumpVersion(p.version, s.bump);
+    const snap: VersionSnapshot = {
+      version: p.version,
+      createdAt: new Date().toISOString(),
+      author: s.author.trim(),
+      note: s.note.trim(),
+      name: p.name,
+      ...(p.nameTranslations ? { nameTranslations: { ...p.nameTranslations } } : {}),
+      steps: JSON.parse(JSON.stringify(p.steps)),
+      approval: { status: "review" },
+    };
+    p.history = [...history, snap];
+    return "created";
+  }
+  if (approvalOf(last).status === "rejected") {
+    // Unverändert erneut einreichen: gleiche Version, die Ablehnung bleibt sichtbar
+    const resubmitted: VersionSnapshot = {
+      ...last,
+      createdAt: new Date().toISOString(),
+      author: s.author.trim(),
+      note: s.note.trim() || last.note,
+      approval: { status: "review", rejected: approvalOf(last).rejected },
+    };
+    p.history = [...history.slice(0, -1), resubmitted];
+    return "resubmitted";
+  }
+  return "unchanged";
+}
+
+/** Freigegeben nur, wenn der Stand genau der freigegebenen letzten Version entspricht;
+ *  ohne Editor-Status (Dateien, CLI) wird der Inhalt verglichen */
+export function releasedVersion(p: ProcessData, finalized?: boolean): VersionSnapshot | undefined {
+  const last = latestVersion(p);
+  if (!last || approvalOf(last).status !== "approved") return undefined;
+  return (finalized ?? contentKey(last) === contentKey(p)) ? last : undefined;
+}
@@ -0,0 +1,261 @@
+import JSZip from "jszip";
+import { ProcessData, StepData, localizeProcess, markersForText, photoAnnotations, processLanguages, stepHeading, formatDuration, formatResource, totalDuration } from "./model";
+import { PdfLabels, pdfLabels } from "./pdf";
+import { formatDateTime, t } from "./i18n";
+import { renderAnnotated } from "./annotations";
+import { serializeProcess } from "./schema";
+
+/** ------------------------
+ *  Export/Import: ZIP-Paket, HTML, Markdown
+ *  ------------------------ */
+export const BUNDLE_FORMAT = "prozess-doku-bundle";
+const BUNDLE_VERSION = 1;
+
+/** Inhaltsverzeichnis des ZIP-Pakets mit SHA-256 je Datei */
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  process: string;   // Pfad der Prozessdatei im Paket
+  files: { path: string; sha256: string; size: number }[];
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function baseFileName(p: ProcessData) {
+  return p.name.replace(/\s+/g, "_");
+}
+
+async function sha256(data: Uint8Array) {
+  const hash = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const EXTENSIONS: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp", "image/gif": "gif" };
+
+function decodeDataUrl(url: string) {
+  const m = url.match(/^data:([^;,]+)(;base64)?,(.*)$/);
+  if (!m) return null;
+  const bin = m[2] ? atob(m[3]) : decodeURIComponent(m[3]);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return { mime: m[1], bytes };
+}
+
+function encodeDataUrl(mime: string, bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${mime};base64,${btoa(bin)}`;
+}
+
+/** Sammelt Bilder als Dateien; gleiche Bilder (z. B. in älteren Versionen) nur einmal */
+function imageFiles(folder: string) {
+  const files = new Map<string, { path: string; bytes: Uint8Array }>();
+  const byUrl = new Map<string, string>();
+  async function add(url: string) {
+    const known = byUrl.get(url);
+    if (known) return known;
+    const decoded = decodeDataUrl(url);
+    if (!decoded) return url; // keine DataURL → unverändert lassen
+    const hash = await sha256(decoded.bytes);
+    const path = `${folder}/${hash.slice(0, 16)}.${EXTENSIONS[decoded.mime] || "bin"}`;
+    files.set(path, { path, bytes: decoded.bytes });
+    byUrl.set(url, path);
+    return path;
+  }
+  return { files, add };
+}
+
+async function mapStepPhotos(steps: StepData[], fn: (url: string) => Promise<string>) {
+  const out: StepData[] = [];
+  for (const s of steps) {
+    const photos: string[] = [];
+    for (const url of s.photos) photos.push(await fn(url));
+    out.push({ ...s, photos });
+  }
+  return out;
+}
+
+/** ZIP mit process.json, Bildern als Einzeldateien und manifest.json */
+export async function exportBundle(p: ProcessData) {
+  const images = imageFiles("images");
+  const data: ProcessData = {
+    ...p,
+    steps: await mapStepPhotos(p.steps, (u) => images.add(u)),
+    history: await Promise.all((p.history || []).map(async (h) => ({ ...h, steps: await mapStepPhotos(h.steps, (u) => images.add(u)) }))),
+    ...(p.layout ? { layout: { ...p.layout, ...(p.layout.logo ? { logo: await images.add(p.layout.logo) } : {}) } } : {}),
+  };
+
+  const zip = new JSZip();
+  const json = new TextEncoder().encode(JSON.stringify(serializeProcess(data), null, 2));
+  const entries = [{ path: "process.json", bytes: json }, ...Array.from(images.files.values())];
+  const manifest: BundleManifest = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, createdAt: new Date().toISOString(), process: "process.json", files: [] };
+  for (const e of entries) {
+    zip.file(e.path, e.bytes);
+    manifest.files.push({ path: e.path, sha256: await sha256(e.bytes), size: e.bytes.length });
+  }
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "blob", mimeType: "application/zip" });
+}
+
+const MIME_BY_EXT: Record<string, string> = Object.fromEntries(Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime]));
+
+/** ZIP-Paket lesen, Prüfsummen kontrollieren, Bildpfade wieder als DataURLs einsetzen.
+ *  Liefert das rohe Prozessobjekt; Normalisierung wie beim JSON-Import übernimmt der Aufrufer. */
+export async function readBundle(file: Blob): Promise<any> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file("manifest.json");
+  if (!manifestFile) throw new Error(t("bundle.noManifest"));
+  const manifest = JSON.parse(await manifestFile.async("string")) as BundleManifest;
+  if (manifest?.format !== BUNDLE_FORMAT || !Array.isArray(manifest.files)) throw new Error(t("bundle.unknownFormat"));
+
+  const contents = new Map<string, Uint8Array>();
+  for (const f of manifest.files) {
+    const entry = zip.file(f.path);
+    if (!entry) throw new Error(t("bundle.fileMissing", { path: f.path }));
+    const bytes = await entry.async("uint8array");
+    if ((await sha256(bytes)) !== f.sha256) throw new Error(t("bundle.checksum", { path: f.path }));
+    contents.set(f.path, bytes);
+  }
+  const json = contents.get(manifest.process || "process.json");
+  if (!json) throw new Error(t("bundle.noProcess"));
+  const obj = JSON.parse(new TextDecoder().decode(json));
+
+  const resolve = async (path: string) => {
+    const bytes = contents.get(path);
+    if (!bytes) return path;
+    return encodeDataUrl(MIME_BY_EXT[path.split(".").pop() || ""] || "application/octet-stream", bytes);
+  };
+  const steps = async (list: any) => (Array.isArray(list) ? Promise.all(list.map(async (s: any) => ({ ...s, photos: Array.isArray(s?.photos) ? await Promise.all(s.photos.map(resolve)) : [] }))) : list);
+  obj.steps = await steps(obj.steps);
+  if (Array.isArray(obj.history)) obj.history = await Promise.all(obj.history.map(async (h: any) => ({ ...h, steps: await steps(h?.steps) })));
+  if (typeof obj.layout?.logo === "string") obj.layout.logo = await resolve(obj.layout.logo);
+  return obj;
+}
+
+/** ------------------------
+ *  Lesbare Exporte (Markierungen eingebrannt, Beschriftungen in der Dokumentsprache wie im PDF)
+ *  ------------------------ */
+function escapeHtml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function textLine(step: StepData, i: number, L: PdfLabels) {
+  const text = step.texts[i];
+  const markers = markersForText(step, text.id);
+  return {
+    no: `${step.index}.${i + 1}`,
+    markers: markers.length ? `[${markers.join(", ")}]` : "",
+    signal: text.severity !== "none" ? `${L.severity[text.severity].toUpperCase()}: ` : "",
+  };
+}
+
+function stepDetails(step: StepData, L: PdfLabels) {
+  return [step.durationMin ? `${L.duration}: ${formatDuration(step.durationMin)}` : "", (step.resources || []).map((r) => formatResource(r, L.resources)).join(", ")].filter(Boolean).join(" | ");
+}
+
+function metaLine(p: ProcessData, lang: string, L: PdfLabels) {
+  const total = totalDuration(p.steps);
+  return `${L.version} ${p.version} · ${L.created} ${formatDateTime(p.createdAt, lang)}${total > 0 ? ` · ${L.totalDuration} ${formatDuration(total)}` : ""}`;
+}
+
+function visibleSteps(p: ProcessData) {
+  return p.steps.filter((s) => s.photos.length > 0 || s.texts.length > 0);
+}
+
+/** Eine HTML-Datei mit eingebetteten Bildern, ohne externe Abhängigkeiten */
+export async function exportHtml(process: ProcessData, lang = processLanguages(process)[0]) {
+  const p = localizeProcess(process, lang);
+  const L = pdfLabels(lang);
+  const parts: string[] = [];
+  for (const step of visibleSteps(p)) {
+    const heading = stepHeading(step, L.step);
+    const details = stepDetails(step, L);
+    const anns = photoAnnotations(step);
+    const imgs: string[] = [];
+    for (let i = 0; i < step.photos.length; i++) {
+      const src = await renderAnnotated(step.photos[i], anns[i]);
+      imgs.push(`<img src="${src}" alt="${escapeHtml(`${heading}, ${L.photo} ${i + 1}`)}">`);
+    }
+    const texts = step.texts.map((x, i) => {
+      const l = textLine(step, i, L);
+      const cls = x.severity !== "none" ? ` class="${x.severity}"` : "";
+      return `<li${cls}><span class="no">${l.no}</span> ${l.markers ? `<span class="marker">${escapeHtml(l.markers)}</span> ` : ""}${escapeHtml(l.signal + x.content)}</li>`;
+    });
+    parts.push(
+      `<section id="schritt-${step.index}">\n<h2>${escapeHtml(heading)}</h2>\n` +
+        (details ? `<p class="details">${escapeHtml(details)}</p>\n` : "") +
+        (imgs.length ? `<div class="photos">${imgs.join("")}</div>\n` : "") +
+        (texts.length ? `<ul>\n${texts.join("\n")}\n</ul>\n` : "") +
+        `</section>`
+    );
+  }
+  const html = `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(p.name)}</title>
+<style>
+body { font-family: sans-serif; max-width: 900px; margin: 24px auto; padding: 0 16px; color: #111827; }
+.meta, .details { color: #6b7280; }
+.photos { display: flex; flex-wrap: wrap; gap: 8px; }
+.photos img { max-width: 100%; max-height: 420px; border: 1px solid #e5e7eb; border-radius: 8px; }
+ul { list-style: none; padding: 0; }
+li { margin: 6px 0; }
+.no { font-weight: 700; }
+.marker { color: #b91c1c; }
+.hint { color: #1d4ed8; font-weight: 700; }
+.caution { color: #b45309; font-weight: 700; }
+.danger { color: #b91c1c; font-weight: 700; border-left: 3px solid #b91c1c; padding-left: 6px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(p.name)}</h1>
+<p class="meta">${escapeHtml(metaLine(p, lang, L))}</p>
+${parts.join("\n")}
+</body>
+</html>
+`;
+  return new Blob([html], { type: "text/html" });
+}
+
+/** Markdown + Bilderordner als ZIP, z. B. für ein Wiki */
+export async function exportMarkdown(process: ProcessData, lang = processLanguages(process)[0]) {
+  const p = localizeProcess(process, lang);
+  const zip = new JSZip();
+  const images = imageFiles("images");
+  const L = pdfLabels(lang);
+  const md: string[] = [`# ${p.name}`, "", metaLine(p, lang, L), ""];
+  for (const step of visibleSteps(p)) {
+    const heading = stepHeading(step, L.step);
+    md.push(`## ${heading}`, "");
+    const details = stepDetails(step, L);
+    if (details) md.push(`_${details}_`, "");
+    const anns = photoAnnotations(step);
+    for (let i = 0; i < step.photos.length; i++) {
+      const path = await images.add(await renderAnnotated(step.photos[i], anns[i]));
+      md.push(`![${heading}, ${L.photo} ${i + 1}](${path})`, "");
+    }
+    step.texts.forEach((x, i) => {
+      const l = textLine(step, i, L);
+      const text = `${l.markers ? `${l.markers} ` : ""}${l.signal}${x.content}`.replace(/\n/g, "  \n");
+      md.push(`- **${l.no}** ${x.severity !== "none" ? `**${text}**` : text}`);
+    });
+    md.push("");
+  }
+  zip.file(`${baseFileName(p)}.md`, md.join("\n"));
+  for (const f of Array.from(images.files.values())) zip.file(f.path, f.bytes);
+  return zip.generateAsync({ type: "blob", mimeType: "application/zip" });
+}
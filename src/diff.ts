@@ -0,0 +1,163 @@
+import { StepData, StepMeta, TextItem, photoAnnotations } from "./model";
+
+/** ------------------------
+ *  Schrittweiser Vergleich zweier Prozessstände
+ *  ------------------------ */
+export type ChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface TextDiff {
+  id: string;
+  status: ChangeStatus;
+  moved: boolean;
+  before?: TextItem;
+  after?: TextItem;
+  contentChanged: boolean;
+  severityChanged: boolean;
+  translationsChanged: boolean;
+}
+
+export interface StepDiff {
+  id: string;
+  status: ChangeStatus;
+  moved: boolean;
+  before?: StepData;
+  after?: StepData;
+  texts: TextDiff[];
+  photosAdded: number;
+  photosRemoved: number;
+  photosReordered: boolean;
+  annotationsChanged: number; // Fotos mit geänderten Markierungen
+  metaChanged: (keyof StepMeta)[]; // geänderte Schrittangaben (Titel, Dauer, Hilfsmittel)
+}
+
+/** IDs, die gegenüber der alten Reihenfolge verschoben wurden (nicht Teil der längsten gemeinsamen Teilfolge) */
+function movedIds(before: string[], after: string[]) {
+  const common = new Set(before.filter((id) => after.includes(id)));
+  const a = before.filter((id) => common.has(id));
+  const b = after.filter((id) => common.has(id));
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const stay = new Set<string>();
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      stay.add(a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) i++;
+    else j++;
+  }
+  return new Set(a.filter((id) => !stay.has(id)));
+}
+
+function diffTexts(before: TextItem[], after: TextItem[]): TextDiff[] {
+  const moved = movedIds(before.map((t) => t.id), after.map((t) => t.id));
+  const out: TextDiff[] = after.map((t) => {
+    const old = before.find((o) => o.id === t.id);
+    if (!old) return { id: t.id, status: "added", moved: false, after: t, contentChanged: false, severityChanged: false, translationsChanged: false };
+    const contentChanged = old.content !== t.content;
+    const severityChanged = old.severity !== t.severity;
+    const translationsChanged = JSON.stringify(old.translations || {}) !== JSON.stringify(t.translations || {});
+    return {
+      id: t.id,
+      status: contentChanged || severityChanged || translationsChanged ? "changed" : "unchanged",
+      moved: moved.has(t.id),
+      before: old,
+      after: t,
+      contentChanged,
+      severityChanged,
+      translationsChanged,
+    };
+  });
+  for (const old of before) {
+    if (!after.some((t) => t.id === old.id)) {
+      out.push({ id: old.id, status: "removed", moved: false, before: old, contentChanged: false, severityChanged: false, translationsChanged: false });
+    }
+  }
+  return out;
+}
+
+/** Fotos, die in beiden Ständen vorkommen, aber andere Markierungen tragen */
+function changedAnnotations(before: StepData, after: StepData) {
+  const old = new Map(before.photos.map((p, i) => [p, JSON.stringify(photoAnnotations(before)[i])]));
+  const now = photoAnnotations(after);
+  return after.photos.filter((p, i) => old.has(p) && old.get(p) !== JSON.stringify(now[i])).length;
+}
+
+function changedMeta(before: StepData, after: StepData) {
+  const out: (keyof StepMeta)[] = [];
+  if ((before.title || "") !== (after.title || "")) out.push("title");
+  if (JSON.stringify(before.titleTranslations || {}) !== JSON.stringify(after.titleTranslations || {})) out.push("titleTranslations");
+  if ((before.durationMin || 0) !== (after.durationMin || 0)) out.push("durationMin");
+  if (JSON.stringify(before.resources || []) !== JSON.stringify(after.resources || [])) out.push("resources");
+  return out;
+}
+
+function samePhotoOrder(before: string[], after: string[]) {
+  const kept = after.filter((p) => before.includes(p));
+  const old = before.filter((p) => after.includes(p));
+  return kept.every((p, i) => p === old[i]);
+}
+
+/** Vergleich in der Reihenfolge des neueren Stands; entfernte Schritte am Ende */
+export function diffSteps(before: StepData[], after: StepData[]): StepDiff[] {
+  const moved = movedIds(before.map((s) => s.id), after.map((s) => s.id));
+  const out: StepDiff[] = after.map((s) => {
+    const old = before.find((o) => o.id === s.id);
+    if (!old) {
+      return {
+        id: s.id,
+        status: "added",
+        moved: false,
+        after: s,
+        texts: diffTexts([], s.texts),
+        photosAdded: s.photos.length,
+        photosRemoved: 0,
+        photosReordered: false,
+        annotationsChanged: 0,
+        metaChanged: [],
+      };
+    }
+    const texts = diffTexts(old.texts, s.texts);
+    const photosAdded = s.photos.filter((p) => !old.photos.includes(p)).length;
+    const photosRemoved = old.photos.filter((p) => !s.photos.includes(p)).length;
+    const photosReordered = !samePhotoOrder(old.photos, s.photos);
+    const annotationsChanged = changedAnnotations(old, s);
+    const metaChanged = changedMeta(old, s);
+    const changed =
+      photosAdded > 0 || photosRemoved > 0 || photosReordered || annotationsChanged > 0 || metaChanged.length > 0 || texts.some((t) => t.status !== "unchanged" || t.moved);
+    return {
+      id: s.id,
+      status: changed ? "changed" : "unchanged",
+      moved: moved.has(s.id),
+      before: old,
+      after: s,
+      texts,
+      photosAdded,
+      photosRemoved,
+      photosReordered,
+      annotationsChanged,
+      metaChanged,
+    };
+  });
+  for (const old of before) {
+    if (!after.some((s) => s.id === old.id)) {
+      out.push({
+        id: old.id,
+        status: "removed",
+        moved: false,
+        before: old,
+        texts: diffTexts(old.texts, []),
+        photosAdded: 0,
+        photosRemoved: old.photos.length,
+        photosReordered: false,
+        annotationsChanged: 0,
+        metaChanged: [],
+      });
+    }
+  }
+  return out;
+}
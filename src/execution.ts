@@ -0,0 +1,99 @@
+import { ProcessData, Severity, StepData, localizeProcess, stepHeading, uid } from "./model";
+import { approvedVersion } from "./approval";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Durchführung: Protokoll eines Durchlaufs an der Linie
+ *  ------------------------ */
+export type ExecutionStatus = "running" | "completed" | "aborted";
+
+export const EXECUTION_STATUS: { key: ExecutionStatus; color: string }[] = [
+  { key: "running", color: "#1d4ed8" },
+  { key: "completed", color: "#15803d" },
+  { key: "aborted", color: "#b91c1c" },
+];
+
+export function executionStatusInfo(s: ExecutionStatus) {
+  return EXECUTION_STATUS.find((x) => x.key === s) || EXECUTION_STATUS[0];
+}
+
+export function executionStatusLabel(s: ExecutionStatus) {
+  return t(`execution.status.${s}`);
+}
+
+/** Abzuhakender Text; Inhalt wird beim Start kopiert, damit das Protokoll unabhängig vom Prozess bleibt */
+export interface ExecutionItem {
+  textId: string;
+  label: string;       // z. B. "3.2"
+  content: string;     // in der Sprache der Durchführung
+  severity: Severity;
+  done: boolean;
+  deviation?: string;  // Abweichung vom dokumentierten Ablauf
+}
+
+export interface ExecutionStep {
+  stepId: string;
+  heading: string;
+  items: ExecutionItem[];
+  comment?: string;
+  proofPhoto?: string; // DataURL
+  completedAt?: string; // ISO; gesetzt beim Weitergehen
+}
+
+export interface ExecutionRecord {
+  id: string;
+  processId: string;   // Bibliotheks-ID des Prozesses
+  processName: string;
+  processVersion: string;
+  lang: string;
+  operator: string;
+  startedAt: string;   // ISO
+  finishedAt?: string;
+  status: ExecutionStatus;
+  currentStep: number; // Index in steps; zum Fortsetzen
+  steps: ExecutionStep[];
+}
+
+/** Schritte der Version (inkl. Fotos) in der Sprache der Durchführung; null = Version nicht mehr vorhanden */
+export function executionSteps(p: ProcessData, rec: Pick<ExecutionRecord, "processVersion" | "lang">): StepData[] | null {
+  const snap = (p.history || []).find((h) => h.version === rec.processVersion);
+  if (!snap) return null;
+  return localizeProcess({ ...p, steps: snap.steps }, rec.lang).steps;
+}
+
+export function startExecution(p: ProcessData, processId: string, operator: string, lang: string): ExecutionRecord | null {
+  const snap = approvedVersion(p); // Durchführungen nur auf der freigegebenen Version
+  if (!snap) return null;
+  const localized = localizeProcess({ ...p, name: snap.name, nameTranslations: snap.nameTranslations ?? p.nameTranslations, steps: snap.steps }, lang);
+  return {
+    id: uid(),
+    processId,
+    processName: localized.name,
+    processVersion: snap.version,
+    lang,
+    operator,
+    startedAt: new Date().toISOString(),
+    status: "running",
+    currentStep: 0,
+    steps: localized.steps.map((s) => ({
+      stepId: s.id,
+      heading: stepHeading(s),
+      items: s.texts.map((x, i) => ({ textId: x.id, label: `${s.index}.${i + 1}`, content: x.content, severity: x.severity, done: false })),
+    })),
+  };
+}
+
+export function executionSummary(rec: ExecutionRecord) {
+  const items = rec.steps.flatMap((s) => s.items);
+  return {
+    total: items.length,
+    done: items.filter((i) => i.done).length,
+    deviations: items.filter((i) => i.deviation).length,
+    proofPhotos: rec.steps.filter((s) => s.proofPhoto).length,
+  };
+}
+
+export function executionFileName(rec: ExecutionRecord) {
+  const day = rec.startedAt.slice(0, 10);
+  return `${rec.processName.replace(/\s+/g, "_")}_v${rec.processVersion}_${t("protocol.fileName")}_${day}.pdf`;
+}
@@ -0,0 +1,31 @@
+import regularUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf";
+import boldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf";
+import { PdfFonts } from "./pdf";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Eingebettete PDF-Schrift (DejaVu Sans, deckt Latein-Erweitert, Pfeile, Symbole ab)
+ *  ------------------------ */
+let cached: Promise<PdfFonts> | null = null;
+
+async function fetchBase64(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(t("fonts.loadError", { url }));
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(bin);
+}
+
+/** Schriftdateien einmal laden; bei Fehler beim nächsten Export erneut versuchen */
+export function loadPdfFonts() {
+  if (!cached) {
+    cached = Promise.all([fetchBase64(regularUrl), fetchBase64(boldUrl)]).then(([regular, bold]) => ({ regular, bold }));
+    cached.catch(() => {
+      cached = null;
+    });
+  }
+  return cached;
+}
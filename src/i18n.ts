@@ -0,0 +1,56 @@
+import de, { MessageKey } from "./locales/de";
+import en from "./locales/en";
+
+/** ------------------------
+ *  Sprache der Oberfläche (unabhängig von den Sprachen eines Prozesses)
+ *  ------------------------ */
+export type UiLang = "de" | "en";
+export type { MessageKey };
+
+export const UI_LANGUAGES: { code: UiLang; label: string; locale: string }[] = [
+  { code: "de", label: "Deutsch", locale: "de-DE" },
+  { code: "en", label: "English", locale: "en-GB" },
+];
+
+const CATALOGS: Record<UiLang, Record<MessageKey, string>> = { de, en };
+
+export function isUiLang(v: unknown): v is UiLang {
+  return UI_LANGUAGES.some((l) => l.code === v);
+}
+
+/** Ohne Wahl (z. B. in der CLI) Deutsch; im Browser setzt uiLang.ts die gespeicherte Wahl */
+let current: UiLang = "de";
+
+export function uiLang() {
+  return current;
+}
+
+export function setUiLang(lang: UiLang) {
+  current = lang;
+}
+
+export type MessageParams = Record<string, string | number>;
+
+/** Text in einer bestimmten Sprache; {name} wird durch params.name ersetzt */
+export function translate(lang: UiLang, key: MessageKey, params?: MessageParams) {
+  const text = CATALOGS[lang][key] ?? de[key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (all, name: string) => (name in params ? String(params[name]) : all));
+}
+
+export function t(key: MessageKey, params?: MessageParams) {
+  return translate(current, key, params);
+}
+
+function locale(lang?: string) {
+  return lang || UI_LANGUAGES.find((l) => l.code === current)!.locale;
+}
+
+/** Datum + Uhrzeit; ohne `lang` im Format der Oberfläche, sonst z. B. in der Dokumentsprache */
+export function formatDateTime(iso: string, lang?: string) {
+  return new Date(iso).toLocaleString(locale(lang), { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function formatDate(iso: string, lang?: string) {
+  return new Date(iso).toLocaleDateString(locale(lang), { dateStyle: "medium" });
+}
@@ -0,0 +1,203 @@
+/** ------------------------
+ *  Bildverarbeitung: EXIF-Ausrichtung, Verkleinern, Neu-Kodieren
+ *  ------------------------ */
+export interface ImageSettings {
+  maxSize: number;    // längste Kante in px, 0 = Originalgröße
+  quality: number;    // 0..1
+  format: "image/jpeg" | "image/webp";
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = { maxSize: 1600, quality: 0.8, format: "image/jpeg" };
+
+const SETTINGS_KEY = "prozess-doku.imageSettings";
+
+export function loadImageSettings(): ImageSettings {
+  try {
+    return { ...DEFAULT_IMAGE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_IMAGE_SETTINGS;
+  }
+}
+
+export function saveImageSettings(s: ImageSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(s));
+}
+
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((res, rej) => {
+    const im = new Image();
+    im.onload = () => res(im);
+    im.onerror = rej;
+    im.src = src;
+  });
+}
+
+/** EXIF-Orientierung (1–8) aus JPEG-Daten; 1 wenn nicht vorhanden */
+export function exifOrientation(buf: ArrayBuffer) {
+  try {
+    const v = new DataView(buf);
+    if (v.getUint16(0) !== 0xffd8) return 1;
+    let off = 2;
+    while (off + 4 <= v.byteLength) {
+      const marker = v.getUint16(off);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // kein Marker / Bilddaten beginnen
+      if (marker === 0xffe1 && v.getUint32(off + 4) === 0x45786966 /* "Exif" */) {
+        const tiff = off + 10;
+        const little = v.getUint16(tiff) === 0x4949;
+        const ifd = tiff + v.getUint32(tiff + 4, little);
+        const count = v.getUint16(ifd, little);
+        for (let i = 0; i < count; i++) {
+          const e = ifd + 2 + i * 12;
+          if (v.getUint16(e, little) === 0x0112) return v.getUint16(e + 8, little);
+        }
+        return 1;
+      }
+      off += 2 + v.getUint16(off + 2);
+    }
+  } catch {
+    // abgeschnittene/defekte EXIF-Daten
+  }
+  return 1;
+}
+
+/**
+ * Aktuelle Browser drehen JPEGs beim Dekodieren bereits selbst; ältere nicht.
+ * Test mit einem 2×1-JPEG, dem eine EXIF-Orientierung 6 (90° gedreht) vorangestellt wird.
+ */
+let autoOrientPromise: Promise<boolean> | null = null;
+function browserAppliesOrientation() {
+  if (!autoOrientPromise) {
+    autoOrientPromise = (async () => {
+      const c = document.createElement("canvas");
+      c.width = 2;
+      c.height = 1;
+      const jpeg = Uint8Array.from(atob(c.toDataURL("image/jpeg").split(",")[1]), (ch) => ch.charCodeAt(0));
+      const app1 = [
+        0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // APP1, Länge 34, "Exif\0\0"
+        0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,             // TIFF big endian, IFD bei 8
+        0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, // 1 Eintrag: Orientation, SHORT, 1
+        0x00, 0x06, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,             // Wert 6, kein weiteres IFD
+      ];
+      const bytes = new Uint8Array(jpeg.length + app1.length);
+      bytes.set(jpeg.subarray(0, 2));
+      bytes.set(app1, 2);
+      bytes.set(jpeg.subarray(2), 2 + app1.length);
+      const url = URL.createObjectURL(new Blob([bytes], { type: "image/jpeg" }));
+      try {
+        const im = await loadImage(url);
+        return im.naturalWidth < im.naturalHeight;
+      } catch {
+        return true;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    })();
+  }
+  return autoOrientPromise;
+}
+
+function fit(w: number, h: number, maxSize: number) {
+  const s = maxSize > 0 ? Math.min(maxSize / Math.max(w, h), 1) : 1;
+  return { w: Math.round(w * s), h: Math.round(h * s) };
+}
+
+function encode(canvas: HTMLCanvasElement, settings: ImageSettings) {
+  const url = canvas.toDataURL(settings.format, settings.quality);
+  // Browser ohne WebP-Encoder liefern PNG zurück
+  return url.startsWith(`data:${settings.format}`) ? url : canvas.toDataURL("image/jpeg", settings.quality);
+}
+
+function canvasFor(w: number, h: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d")!;
+  // transparente PNGs nicht schwarz werden lassen
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, w, h);
+  return { canvas, ctx };
+}
+
+/** Hochgeladenes Foto ausrichten, verkleinern und neu kodieren */
+export async function processPhoto(file: File, settings: ImageSettings) {
+  const orientation = exifOrientation(await file.slice(0, 128 * 1024).arrayBuffer());
+  const manual = orientation > 1 && !(await browserAppliesOrientation());
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const { w, h } = fit(img.naturalWidth, img.naturalHeight, settings.maxSize);
+    const swap = manual && orientation >= 5;
+    const { canvas, ctx } = canvasFor(swap ? h : w, swap ? w : h);
+    if (manual) {
+      const t: Record<number, number[]> = {
+        2: [-1, 0, 0, 1, w, 0],
+        3: [-1, 0, 0, -1, w, h],
+        4: [1, 0, 0, -1, 0, h],
+        5: [0, 1, 1, 0, 0, 0],
+        6: [0, 1, -1, 0, h, 0],
+        7: [0, -1, -1, 0, h, w],
+        8: [0, -1, 1, 0, 0, w],
+      };
+      const [a, b, c, d, e, f] = t[orientation] || [1, 0, 0, 1, 0, 0];
+      ctx.transform(a, b, c, d, e, f);
+    }
+    ctx.drawImage(img, 0, 0, w, h);
+    return encode(canvas, settings);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** Ausschnitt in relativen Koordinaten (0..1) des gedrehten Bilds */
+export interface CropRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Bild im Uhrzeigersinn gedreht zeichnen; w/h sind die ungedrehten Maße */
+export function drawRotated(ctx: CanvasRenderingContext2D, img: HTMLImageElement, rotation: Rotation, w: number, h: number) {
+  ctx.save();
+  if (rotation === 90) ctx.transform(0, 1, -1, 0, h, 0);
+  else if (rotation === 180) ctx.transform(-1, 0, 0, -1, w, h);
+  else if (rotation === 270) ctx.transform(0, -1, 1, 0, 0, w);
+  ctx.drawImage(img, 0, 0, w, h);
+  ctx.restore();
+}
+
+/** Drehen, zuschneiden und mit den aktuellen Einstellungen neu kodieren */
+export async function renderEdited(src: string, rotation: Rotation, crop: CropRect | null, settings: ImageSettings) {
+  const img = await loadImage(src);
+  const w = img.naturalWidth;
+  const h = img.naturalHeight;
+  const swap = rotation === 90 || rotation === 270;
+  const full = canvasFor(swap ? h : w, swap ? w : h);
+  drawRotated(full.ctx, img, rotation, w, h);
+  const c = crop || { x: 0, y: 0, w: 1, h: 1 };
+  const sx = Math.round(c.x * full.canvas.width);
+  const sy = Math.round(c.y * full.canvas.height);
+  const sw = Math.max(Math.round(c.w * full.canvas.width), 1);
+  const sh = Math.max(Math.round(c.h * full.canvas.height), 1);
+  const out = fit(sw, sh, settings.maxSize);
+  const { canvas, ctx } = canvasFor(out.w, out.h);
+  ctx.drawImage(full.canvas, sx, sy, sw, sh, 0, 0, out.w, out.h);
+  return encode(canvas, settings);
+}
+
+/** Unbekannte Formate (z. B. GIF, BMP, SVG) für den PDF-Export als JPEG umkodieren */
+export function toJpeg(img: HTMLImageElement) {
+  const { canvas, ctx } = canvasFor(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL("image/jpeg", 0.92);
+}
+
+/** Aktuelles Kamerabild mit den Bildeinstellungen kodieren */
+export function captureFrame(video: HTMLVideoElement, settings: ImageSettings) {
+  const { w, h } = fit(video.videoWidth, video.videoHeight, settings.maxSize);
+  const { canvas, ctx } = canvasFor(w, h);
+  ctx.drawImage(video, 0, 0, w, h);
+  return encode(canvas, settings);
+}
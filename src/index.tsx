@@ -1,6 +1,11 @@
 ﻿import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { registerServiceWorker } from "./pwa";
+import { initUiLang } from "./uiLang";
+
+registerServiceWorker();
+initUiLang();
 
 const root = ReactDOM.createRoot(document.getElementById("root")!);
 root.render(
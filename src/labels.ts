@@ -0,0 +1,59 @@
+import jsPDF from "jspdf";
+import { FONT, PdfFonts, embedFonts } from "./pdf";
+import { drawQrCode, qrPayload } from "./qr";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Etikettenbogen: QR-Codes aller Prozesse zum Aufkleben an Maschinen und Arbeitsplätzen
+ *  ------------------------ */
+export interface LabelItem {
+  id: string;          // ProcessData.id
+  name: string;
+}
+
+const COLS = 2;
+const ROWS = 5;
+
+/** DIN A4 mit 2 × 5 Etiketten (105 × 59,4 mm); die Codes enthalten keine Version und veralten daher nicht */
+export function renderLabelSheet(items: LabelItem[], fonts: PdfFonts, baseUrl?: string) {
+  const pdf = new jsPDF({ unit: "pt", format: "a4" });
+  embedFonts(pdf, fonts);
+  pdf.setDocumentProperties({ title: t("labels.title") });
+  const w = pdf.internal.pageSize.getWidth() / COLS;
+  const h = pdf.internal.pageSize.getHeight() / ROWS;
+  const pad = 14;
+  const qrSize = h - pad * 2;
+
+  items.forEach((item, i) => {
+    const slot = i % (COLS * ROWS);
+    if (i > 0 && slot === 0) pdf.addPage();
+    const x = (slot % COLS) * w;
+    const y = Math.floor(slot / COLS) * h;
+
+    // Schnittkanten für Blankopapier; auf Etikettenbögen fallen sie auf die Stanzung
+    pdf.setDrawColor(210);
+    pdf.setLineDashPattern([2, 2], 0);
+    pdf.rect(x, y, w, h);
+    pdf.setLineDashPattern([], 0);
+
+    drawQrCode(pdf, qrPayload({ id: item.id }, baseUrl), x + pad, y + pad, qrSize);
+
+    const textX = x + pad + qrSize + 10;
+    const textW = w - (textX - x) - pad;
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFont(FONT, "bold");
+    pdf.setFontSize(12);
+    const name: string[] = pdf.splitTextToSize(item.name, textW).slice(0, 5);
+    pdf.text(name, textX, y + pad + 10);
+
+    pdf.setFont(FONT, "normal");
+    pdf.setFontSize(8);
+    pdf.setTextColor(90, 90, 90);
+    const idY = y + h - pad;
+    const hint: string[] = pdf.splitTextToSize(t("labels.hint"), textW);
+    pdf.text(hint, textX, idY - 12 - (hint.length - 1) * 9.2);
+    pdf.text(`ID ${item.id.slice(0, 8)}`, textX, idY);
+  });
+  pdf.setTextColor(0, 0, 0);
+  return pdf;
+}
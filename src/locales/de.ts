@@ -0,0 +1,490 @@
+/** ------------------------
+ *  Deutsche Texte der Oberfläche – Referenzkatalog, legt alle Schlüssel fest
+ *  ------------------------ */
+const de = {
+  // Allgemein
+  "common.close": "Schließen",
+  "common.cancel": "Abbrechen",
+  "common.delete": "Löschen",
+  "common.remove": "Entfernen",
+  "common.noName": "ohne Namen",
+  "common.loading": "Lade …",
+  "common.noHits": "Keine Treffer.",
+  "common.language": "Sprache",
+
+  // Fachbegriffe
+  "step.word": "Schritt",
+  "severity.none": "Normal",
+  "severity.hint": "Hinweis",
+  "severity.caution": "Vorsicht",
+  "severity.danger": "Gefahr",
+  "resource.tool": "Werkzeug",
+  "resource.material": "Material",
+  "resource.ppe": "PSA",
+  "pdfTemplate.stacked": "Fortlaufend",
+  "pdfTemplate.stepPerPage": "Ein Schritt pro Seite",
+  "pdfTemplate.twoColumn": "Fotoraster neben Text",
+  "approval.draft": "Entwurf",
+  "approval.review": "In Prüfung",
+  "approval.approved": "Freigegeben",
+  "approval.rejected": "Abgelehnt",
+  "approval.obsolete": "Veraltet",
+  "version.missing": "Bitte eine Version eingeben.",
+  "version.invalid": "Ungültige Version. Erlaubt sind z. B. 1.0, 1.10 oder 1.0.0.",
+
+  // Freigabe
+  "approval.error.noVersion": "Es gibt noch keine eingereichte Version.",
+  "approval.error.name": "Bitte einen Namen eingeben.",
+  "approval.error.notInReview": "Die Version ist nicht in Prüfung.",
+  "approval.error.alreadyReviewed": "Die Version ist bereits geprüft.",
+  "approval.error.reviewerIsAuthor": "Prüfer und Autor müssen verschiedene Personen sein.",
+  "approval.error.notReviewed": "Die Version muss vor der Freigabe geprüft werden.",
+  "approval.error.approverIsReviewer": "Prüfer und Freigeber müssen verschiedene Personen sein.",
+  "approval.error.approverIsAuthor": "Autor und Freigeber müssen verschiedene Personen sein.",
+  "approvalPanel.dialog.review": "Version prüfen",
+  "approvalPanel.dialog.approve": "Version freigeben",
+  "approvalPanel.dialog.reject": "Version ablehnen",
+  "approvalPanel.signatureOf": "Unterschrift {name}",
+  "approvalPanel.noVersion": "Entwurf – noch keine Version zur Prüfung eingereicht.",
+  "approvalPanel.workingDraft": "Arbeitsstand: Entwurf (nicht eingereicht)",
+  "approvalPanel.awaitingApproval": "geprüft, Freigabe ausstehend",
+  "approvalPanel.awaitingReview": "Prüfung ausstehend",
+  "approvalPanel.created": "Erstellt",
+  "approvalPanel.reviewed": "Geprüft",
+  "approvalPanel.previouslyRejected": "Zuvor abgelehnt",
+  "approvalPanel.resubmitHint": "Nach der Überarbeitung erneut zur Prüfung einreichen.",
+  "approvalPanel.review": "Prüfen",
+  "approvalPanel.approve": "Freigeben",
+  "approvalPanel.reject": "Ablehnen",
+
+  // Unterschrift
+  "signature.error.name": "Bitte einen Namen eingeben.",
+  "signature.error.ink": "Bitte im Feld unterschreiben.",
+  "signature.error.reason": "Bitte die Ablehnung begründen.",
+  "signature.name": "Name",
+  "signature.signHere": "Hier unterschreiben",
+  "signature.clear": "Leeren",
+  "signature.reason": "Begründung der Ablehnung",
+  "signature.sign": "Unterschreiben",
+  "signature.reject": "Ablehnen",
+
+  // PDF-Layout
+  "layout.logoError": "Das Logo konnte nicht geladen werden.",
+  "layout.template": "Vorlage",
+  "layout.portrait": "Hochformat",
+  "layout.landscape": "Querformat",
+  "layout.separate": "Je Sprache ein PDF",
+  "layout.bilingual": "Zweisprachig nebeneinander",
+  "layout.coverPage": "Deckblatt mit Freigabeblock",
+  "layout.toc": "Inhaltsverzeichnis",
+  "layout.company": "Firmenname",
+  "layout.changeLogo": "Logo ändern",
+  "layout.chooseLogo": "Logo wählen",
+
+  // Schritt-Navigator
+  "navigator.empty": "leer",
+  "navigator.photos": "{count} Foto(s)",
+  "navigator.up": "Nach oben",
+  "navigator.down": "Nach unten",
+  "navigator.insertBefore": "+ davor",
+  "navigator.insertAfter": "+ danach",
+  "navigator.confirmDelete": "Schritt {index} mit allen Fotos und Texten löschen?",
+
+  // Sprachen eines Prozesses
+  "languages.processName": "Prozessname",
+  "languages.stepTitle": "Schritt {index} · Titel",
+  "languages.stepText": "Schritt {index} · Text {number}",
+  "languages.confirmRemove": "{language} aus dem Prozess entfernen? Vorhandene Übersetzungen bleiben gespeichert und erscheinen wieder, wenn die Sprache erneut hinzugefügt wird.",
+  "languages.primary": "Hauptsprache",
+  "languages.add": "Sprache hinzufügen …",
+  "languages.missing": "{count} Übersetzung(en) fehlen",
+  "languages.complete": "vollständig",
+
+  // Vorlagen
+  "templates.template": "Vorlage",
+  "templates.empty": "Leerer Prozess",
+  "templates.steps": "{count} Schritte",
+  "templates.delete": "Vorlage löschen",
+  "templates.replaces": "ersetzt {placeholder}",
+
+  // Suche
+  "search.stepTitle": "Schritt {index} – Titel",
+  "search.jump": "Zum Schritt springen",
+  "search.more": "… und {count} weitere Treffer",
+  "search.importantOnly": "nur Hinweis/Vorsicht/Gefahr",
+  "search.allStatus": "Alle Status",
+  "search.version": "Version",
+  "search.changedFrom": "geändert von",
+  "search.changedTo": "bis",
+
+  // Durchführung
+  "execution.status.running": "Läuft",
+  "execution.status.completed": "Abgeschlossen",
+  "execution.status.aborted": "Abgebrochen",
+  "executions.confirmDelete": "Protokoll vom {date} ({operator}) löschen?",
+  "executions.notReleased": "Erst möglich, wenn eine Version freigegeben ist.",
+  "executions.releasedVersion": "Durchgeführt wird die freigegebene Version v{version}.",
+  "executions.operatorMissing": "Bitte den Namen des Bedieners eingeben.",
+  "executions.start": "Durchführung starten",
+  "executions.done": "{done}/{total} erledigt",
+  "executions.deviations": "{count} Abweichung(en)",
+  "executions.resume": "Fortsetzen",
+  "executions.view": "Ansehen",
+
+  // Durchführungsprotokoll (PDF)
+  "protocol.title": "Durchführungsprotokoll",
+  "protocol.fileName": "Protokoll",
+  "protocol.operator": "Bediener",
+  "protocol.started": "Begonnen",
+  "protocol.finished": "Beendet",
+  "protocol.status": "Status",
+  "protocol.done": "Erledigt",
+  "protocol.doneOf": "{done} von {total} Punkten",
+  "protocol.deviations": "Abweichungen",
+  "protocol.deviation": "Abweichung",
+  "protocol.comment": "Kommentar",
+  "protocol.proofPhoto": "Nachweisfoto",
+  "protocol.signature": "Datum, Unterschrift",
+  "protocol.page": "Seite {page} von {pages}",
+
+  // Fotos
+  "photo.loadError": "Das Foto konnte nicht geladen werden.",
+  "photo.processing": "Verarbeite …",
+
+  // Durchführung (Vollbild)
+  "execution.confirmFinish": "{count} Punkt(e) sind nicht abgehakt. Durchführung trotzdem abschließen?",
+  "execution.confirmAbort": "Durchführung abbrechen? Das Protokoll bleibt als „Abgebrochen“ erhalten.",
+  "execution.subtitle": "Durchführung · {operator} · seit {date}",
+  "execution.abort": "Abbrechen",
+  "execution.pause": "Unterbrechen",
+  "execution.headingCompleted": "Durchführung abgeschlossen",
+  "execution.headingAborted": "Durchführung abgebrochen",
+  "execution.summary": "{done} von {total} Punkten erledigt",
+  "execution.finishedAt": "Beendet am {date}",
+  "execution.exportPdf": "Protokoll als PDF",
+  "execution.stepOf": "Schritt {step} von {steps}",
+  "execution.photosMissing": "Die Fotos dieser Version sind im Prozess nicht mehr vorhanden.",
+  "execution.describeDeviation": "Abweichung beschreiben",
+  "execution.noDeviation": "Keine Abweichung",
+  "execution.optional": "optional",
+  "execution.replaceProof": "Nachweisfoto ersetzen",
+  "execution.takeProof": "Nachweisfoto aufnehmen",
+  "execution.back": "Zurück",
+  "execution.next": "Weiter",
+  "execution.finish": "Abschließen",
+
+  // Import
+  "import.title": "Import prüfen",
+  "import.format": "Dateiformat v{version}",
+  "import.current": "aktuell v{version}",
+  "import.name": "Name",
+  "import.version": "Version",
+  "import.created": "Erstellt am",
+  "import.steps": "Schritte",
+  "import.photos": "Fotos",
+  "import.texts": "Texte",
+  "import.versions": "Versionen",
+  "import.languages": "Sprachen",
+  "import.migrated": "Aktualisiert aus älterem Format",
+  "import.errors": "Fehler – Import nicht möglich",
+  "import.repairs": "Wird beim Import korrigiert ({count})",
+  "import.valid": "Die Datei ist gültig.",
+  "import.hint": "Der Import legt einen neuen Eintrag in der Bibliothek an und öffnet ihn; der aktuelle Prozess bleibt dort erhalten.",
+  "import.confirm": "Importieren",
+
+  // Dateiformat (Import-Prüfung)
+  "schema.migration.v1": "IDs für Schritte und Texte ergänzt, „wichtig“ als Hervorhebung „Gefahr“ übernommen",
+  "schema.migration.v2": "Prozess- und Schritt-IDs als UUID (für QR-Codes und Abgleich gedruckter PDFs)",
+  "schema.noMigration": "Keine Migration von Formatversion {version} vorhanden.",
+  "schema.path.file": "Datei",
+  "schema.path.process": "Prozess",
+  "schema.path.layout": "PDF-Layout",
+  "schema.path.history": "Versionen",
+  "schema.path.version": "Version {version}",
+  "schema.path.photo": "Foto {number}",
+  "schema.path.annotation": "Markierung {number}",
+  "schema.path.text": "Text {number}",
+  "schema.path.resource": "Hilfsmittel {number}",
+  "schema.idMissing": "ID fehlt – wird ergänzt.",
+  "schema.step.invalid": "Kein gültiger Schritt – wird als leerer Schritt übernommen.",
+  "schema.step.title": "Titel ist kein Text – wird entfernt.",
+  "schema.step.duration": "Ungültige Dauer „{value}“ – wird entfernt.",
+  "schema.step.photos": "Fotos sind keine Liste – werden verworfen.",
+  "schema.step.texts": "Texte sind keine Liste – werden verworfen.",
+  "schema.step.resources": "Hilfsmittel sind keine Liste – werden verworfen.",
+  "schema.photo.invalid": "Kein eingebettetes Bild – Foto wird entfernt.",
+  "schema.photo.annotations": "Markierungen sind keine Liste – werden verworfen.",
+  "schema.photo.annotation": "Unbekannte Markierung – wird entfernt.",
+  "schema.text.content": "Inhalt fehlt oder ist kein Text – wird als leerer Text übernommen.",
+  "schema.text.severity": "Unbekannte Hervorhebung „{value}“ – wird als „Normal“ übernommen.",
+  "schema.resource.invalid": "Ungültiges Hilfsmittel – wird entfernt.",
+  "schema.file.noProcess": "Die Datei enthält kein Prozessobjekt.",
+  "schema.file.version": "Ungültige Formatversion „{value}“.",
+  "schema.file.newer": "Die Datei stammt aus einer neueren Programmversion (Format v{version}, unterstützt bis v{supported}). Bitte die Anwendung aktualisieren.",
+  "schema.process.name": "Prozessname fehlt.",
+  "schema.process.steps": "Schrittliste („steps“) fehlt oder ist keine Liste.",
+  "schema.process.version": "Ungültige Version „{value}“ – wird auf 1.0 gesetzt.",
+  "schema.process.createdAt": "Erstellungsdatum fehlt oder ist ungültig – aktuelles Datum wird verwendet.",
+  "schema.process.languages": "Ungültige Sprachliste – nur Deutsch wird übernommen.",
+  "schema.process.noSteps": "Keine Schritte – ein leerer Schritt wird angelegt.",
+  "schema.layout.invalid": "Ungültige Angaben{fields} – Standardwerte werden verwendet.",
+  "schema.history.invalid": "Versionsverlauf ist keine Liste – wird verworfen.",
+  "schema.version.invalid": "Kein gültiger Versionseintrag – wird leer übernommen.",
+  "schema.version.approval": "Ungültige Freigabeangaben – Version gilt als „In Prüfung“.",
+  "schema.version.steps": "Schrittliste fehlt – Version wird ohne Schritte übernommen.",
+
+  // Foto-Editor und Markierungen
+  "common.apply": "Übernehmen",
+  "photo.editError": "Das Foto konnte nicht bearbeitet werden.",
+  "photo.editTitle": "Foto bearbeiten",
+  "photo.cropHint": "Zum Zuschneiden einen Bereich aufziehen.",
+  "photo.rotateLeft": "Links drehen",
+  "photo.rotateRight": "Rechts drehen",
+  "photo.resetCrop": "Ausschnitt zurücksetzen",
+  "annotation.title": "Foto markieren",
+  "annotation.arrow": "Pfeil",
+  "annotation.rect": "Rechteck",
+  "annotation.circle": "Kreis",
+  "annotation.marker": "Nummer",
+  "annotation.label": "Text",
+  "annotation.labelPrompt": "Beschriftung:",
+  "annotation.noText": "– kein Text –",
+  "annotation.removeAll": "Alle entfernen",
+
+  // Kamera
+  "camera.unavailable": "Kamera nicht verfügbar oder Zugriff verweigert. Bitte Fotos über „Datei wählen“ hinzufügen.",
+  "camera.retaking": "Foto {number} wird neu aufgenommen",
+  "camera.shot": "Aufnahme {number}",
+  "camera.retake": "Neu",
+  "camera.switch": "Kamera wechseln",
+  "camera.shoot": "Auslösen",
+  "camera.burst": "Serie ({count})",
+
+  // Schrittbibliothek
+  "stepLibrary.namePrompt": "Name des Bibliotheksschritts:",
+  "stepLibrary.nameMissing": "Bitte einen Namen für den Bibliotheksschritt eingeben.",
+  "stepLibrary.saveError": "Der Schritt konnte nicht in der Bibliothek gespeichert werden.",
+  "stepLibrary.confirmUpdate": "„{name}“ mit dem aktuellen Schritt überschreiben (Revision {revision})? Andere Prozesse behalten ihre Kopie und werden als veraltet angezeigt.",
+  "stepLibrary.updateError": "Der Bibliotheksschritt konnte nicht aktualisiert werden.",
+  "stepLibrary.confirmDelete": "„{name}“ aus der Schrittbibliothek löschen?",
+  "stepLibrary.copiesKept": "Die Kopien in {count} Prozess(en) bleiben erhalten.",
+  "stepLibrary.saveCurrent": "Aktuellen Schritt speichern",
+  "stepLibrary.update": "„{name}“ aktualisieren",
+  "stepLibrary.empty": "Noch keine Schritte in der Bibliothek.",
+  "stepLibrary.revision": "Rev. {revision}",
+  "stepLibrary.contents": "{photos} Foto(s), {texts} Text(e)",
+  "stepLibrary.usedIn": "in {count} Prozess(en)",
+  "stepLibrary.outdatedCount": "{count} veraltet",
+  "stepLibrary.outdated": "veraltet",
+  "stepLibrary.insert": "Einfügen",
+
+  // Bibliothek
+  "process.nameMissing": "Bitte einen Prozessnamen eingeben.",
+  "library.title": "Bibliothek",
+  "library.loadError": "Die lokale Bibliothek konnte nicht geladen werden.",
+  "library.saveError": "Die Änderung konnte nicht gespeichert werden (Speicher voll oder Datenbank blockiert).",
+  "library.renamePrompt": "Neuer Prozessname:",
+  "library.confirmDelete": "„{name}“ (v{version}) samt Durchführungsprotokollen endgültig löschen?",
+  "library.searchPlaceholder": "Suchen in Namen, Schritttiteln und Texten …",
+  "library.reset": "Zurücksetzen",
+  "library.empty": "Noch keine Prozesse gespeichert.",
+  "library.hits": "{hits} Treffer in {processes} Prozess(en)",
+  "library.changedAt": "geändert {date}",
+  "library.open": "Öffnen",
+  "library.noMatch": "Keine Prozesse entsprechen den Filtern.",
+  "library.created": "Erstellt",
+  "library.name": "Name",
+  "library.changed": "Geändert",
+  "library.version": "Version",
+  "library.status": "Status",
+  "library.duplicate": "Duplizieren",
+  "library.rename": "Umbenennen",
+
+  // Paket-Import und Schrift
+  "bundle.noManifest": "Im ZIP fehlt manifest.json.",
+  "bundle.unknownFormat": "Unbekanntes Paketformat.",
+  "bundle.fileMissing": "Datei fehlt im Paket: {path}",
+  "bundle.checksum": "Prüfsumme stimmt nicht: {path}",
+  "bundle.noProcess": "Im Paket fehlt die Prozessdatei.",
+  "fonts.loadError": "Schrift nicht ladbar: {url}",
+  "library.copy": "Kopie",
+
+  // Versionsverlauf
+  "history.textAdded": "neu: „{text}“",
+  "history.textRemoved": "entfernt: „{text}“",
+  "history.textChanged": "„{before}“ → „{after}“",
+  "history.translationChanged": "Übersetzung geändert",
+  "history.textMoved": "verschoben (vorher {before})",
+  "history.noDifferences": "Keine Unterschiede.",
+  "history.stepAdded": "Schritt {index} hinzugefügt",
+  "history.stepRemoved": "Schritt {index} entfernt",
+  "history.stepMoved": "Schritt {index} (vorher {before}) verschoben",
+  "history.stepChanged": "Schritt {index} geändert",
+  "history.photos": "{count} Foto(s)",
+  "history.photosReordered": "Fotos umsortiert",
+  "history.annotationsChanged": "Markierungen auf {count} Foto(s) geändert",
+  "history.metaChanged": "{fields} geändert",
+  "history.meta.title": "Titel",
+  "history.meta.titleTranslations": "Titelübersetzung",
+  "history.meta.durationMin": "Dauer",
+  "history.meta.resources": "Hilfsmittel",
+  "history.empty": "Noch keine eingereichte Version.",
+  "history.readOnly": "nur lesen",
+  "history.confirmRestore": "Stand von Version {version} wiederherstellen? Nicht finalisierte Änderungen gehen verloren.",
+  "history.restore": "Wiederherstellen",
+  "history.current": "Aktueller Stand",
+  "history.hide": "Ausblenden",
+  "history.compare": "Vergleichen",
+
+  // Hauptansicht
+  "app.title": "Prozess-Dokumentation",
+  "app.offline": "Offline",
+  "app.offlineHint": "Prozesse, Fotos und PDF-Export funktionieren weiter; alles wird lokal gespeichert.",
+  "app.install": "App installieren",
+  "app.undo": "Rückgängig (Strg+Z)",
+  "app.undoLabel": "Rückgängig: {label} (Strg+Z)",
+  "app.redo": "Wiederholen (Strg+Umschalt+Z)",
+  "app.redoLabel": "Wiederholen: {label} (Strg+Umschalt+Z)",
+  "app.save": "Speichern",
+  "app.exportAs": "Exportieren als …",
+  "app.export.zip": "ZIP-Paket (Bilder als Dateien)",
+  "app.export.html": "HTML-Seite",
+  "app.export.md": "Markdown mit Bilderordner",
+  "app.load": "Laden",
+  "app.exportPdf": "PDF exportieren",
+  "app.updateReady": "Eine neue Version ist verfügbar. Offene Änderungen werden vor dem Neuladen gespeichert.",
+  "app.updateNow": "Jetzt aktualisieren",
+  "update.confirmDraftText": "Der Text im Eingabefeld wurde noch nicht hinzugefügt und geht beim Aktualisieren verloren. Trotzdem aktualisieren?",
+  "update.confirmUnsaved": "Offene Änderungen konnten nicht lokal gespeichert werden und gehen beim Aktualisieren verloren. Trotzdem aktualisieren?",
+  "app.processNotFound": "Der Prozess wurde in der Bibliothek nicht gefunden.",
+  "app.openError": "Der Prozess konnte nicht geöffnet werden.",
+  "app.confirmPlaceholders": "Nicht ausgefüllte Platzhalter bleiben als {{…}} im Text stehen. Trotzdem anlegen?",
+  "app.createError": "Der Prozess konnte nicht in der lokalen Bibliothek angelegt werden.",
+  "app.confirmDeleteTemplate": "Vorlage „{name}“ löschen? Bereits angelegte Prozesse bleiben unverändert.",
+  "app.photosFailed": "{count} Foto(s) konnten nicht gelesen werden.",
+  "app.stepIncomplete": "Jeder Schritt braucht mindestens ein Foto und einen Text.",
+  "app.confirmReplaceStep": "Schritt durch Revision {revision} von „{name}“ ersetzen? Eigene Änderungen an diesem Schritt gehen verloren.",
+  "app.templateNamePrompt": "Name der Vorlage (Platzhalter im Text als {{Name}}):",
+  "app.templateNameMissing": "Bitte einen Namen für die Vorlage eingeben.",
+  "app.templateSaveError": "Die Vorlage konnte nicht gespeichert werden.",
+  "app.templateDeleteError": "Die Vorlage konnte nicht gelöscht werden.",
+  "app.exportError": "Der Export ist fehlgeschlagen.",
+  "app.confirmLoadUnsaved": "Der aktuelle Prozess hat Änderungen, die nicht als Datei gespeichert wurden (der Stand bleibt in der Bibliothek). Trotzdem eine andere Datei laden?",
+  "app.invalidJson": "Kein gültiges JSON.",
+  "app.unknownError": "Unbekannter Fehler.",
+  "app.confirmMissingTranslations": "Es fehlen {count} Übersetzung(en) ({langs}). Dort wird der Text in {primary} verwendet. Trotzdem exportieren?",
+  "app.fontError": "Die PDF-Schrift konnte nicht geladen werden. Bitte Verbindung prüfen und erneut exportieren.",
+  "app.pdfError": "Das PDF konnte nicht erstellt werden (z. B. Foto oder Logo nicht lesbar).",
+  "app.executionSaveError": "Die Durchführung konnte nicht gespeichert werden.",
+  "app.confirmDropAnnotations": "Die Markierungen dieses Fotos werden dabei entfernt. Fortfahren?",
+  "app.processName": "Prozessname (erster Schritt)",
+  "app.processNamePlaceholder": "z. B. Wareneingang prüfen",
+  "app.version": "Version",
+  "app.versionPlaceholder": "z. B. 1.0",
+  "app.create": "Prozess anlegen",
+  "app.editLanguage": "Bearbeitungssprache",
+  "app.stepBack": "Schritt zurück",
+  "app.finishStep": "Schritt beenden",
+  "app.outdatedCopy": "Veraltete Kopie von „{name}“ (Rev. {revision}, aktuell Rev. {current})",
+  "app.noPrimaryTitle": "kein Titel in der Hauptsprache",
+  "app.stepTitle": "Titel",
+  "app.titlePlaceholder": "optional, z. B. Maschine freischalten",
+  "app.duration": "Dauer (min)",
+  "app.durationPlaceholder": "geschätzt",
+  "app.resources": "Werkzeug, Material, PSA",
+  "app.resourcePlaceholder": "z. B. Drehmomentschlüssel 25 Nm",
+  "app.add": "Hinzufügen",
+  "app.photos": "Fotos",
+  "app.camera": "Kamera",
+  "app.imageSettings": "Bildeinstellungen",
+  "app.maxSize": "Max. Auflösung",
+  "app.original": "Original",
+  "app.quality": "Qualität",
+  "app.imageFormat": "Format",
+  "app.photoAlt": "Foto {number}",
+  "app.annotate": "Markieren",
+  "app.edit": "Bearbeiten",
+  "app.texts": "Texte",
+  "app.textsIn": "Texte ({language})",
+  "app.translateHint": "Neue Texte, Reihenfolge und Hervorhebung werden in der Hauptsprache ({language}) bearbeitet.",
+  "app.translationPlaceholder": "Übersetzung ({language})",
+  "app.textPlaceholder": "Beschreibung für Schritt {index}",
+  "app.severity": "Hervorhebung",
+  "app.addText": "Text hinzufügen",
+  "app.moveTo": "Verschieben nach …",
+  "app.author": "Autor",
+  "app.authorMissing": "Bitte vor dem Einreichen einen Autor eingeben.",
+  "app.changeNote": "Änderungsnotiz für die nächste Version",
+  "app.bumpKind": "Art der Änderung:",
+  "app.bump.major": "Hauptversion",
+  "app.bump.minor": "Nebenversion",
+  "app.bump.patch": "Korrektur",
+  "app.autosaveFailed": "Lokales Speichern fehlgeschlagen – bitte Datei speichern.",
+  "app.draftHint": "Nicht freigegebene Stände werden als Entwurf exportiert.",
+  "app.submit": "Zur Prüfung einreichen",
+  "app.steps": "Schritte",
+  "app.searchProcess": "In diesem Prozess suchen …",
+  "app.stepLibrary": "Schrittbibliothek",
+  "app.saveAsTemplate": "Prozess als Vorlage speichern",
+  "app.preview": "Vorschau – {name} (v{version})",
+  "app.approval": "Freigabe",
+  "app.history": "Versionen",
+  "app.layout": "PDF-Layout",
+  "app.languages": "Sprachen",
+  "app.execution": "Durchführung",
+
+  // Rückgängig
+  "undo.layout": "PDF-Layout geändert",
+  "undo.textAdded": "Text hinzugefügt",
+  "undo.textRemoved": "Text entfernt",
+  "undo.severity": "Hervorhebung geändert",
+  "undo.meta": "Schrittangaben geändert",
+  "undo.resourceAdded": "Hilfsmittel hinzugefügt",
+  "undo.resourceRemoved": "Hilfsmittel entfernt",
+  "undo.translation": "Übersetzung geändert",
+  "undo.languages": "Sprachen geändert",
+  "undo.textChanged": "Text geändert",
+  "undo.textsReordered": "Texte umsortiert",
+  "undo.textMoved": "Text verschoben",
+  "undo.photoAdded": "Foto hinzugefügt",
+  "undo.photosAdded": "Fotos hinzugefügt",
+  "undo.photoRemoved": "Foto entfernt",
+  "undo.photoEdited": "Foto bearbeitet",
+  "undo.annotations": "Markierungen geändert",
+  "undo.stepFinished": "Schritt beendet",
+  "undo.stepBack": "Schritt zurück",
+  "undo.stepSwitched": "Schritt gewechselt",
+  "undo.stepMoved": "Schritt verschoben",
+  "undo.stepInserted": "Schritt eingefügt",
+  "undo.libraryStepInserted": "Bibliotheksschritt eingefügt",
+  "undo.libraryStepUpdated": "Bibliotheksschritt aktualisiert",
+  "undo.stepDeleted": "Schritt gelöscht",
+  "undo.versionRestored": "Version wiederhergestellt",
+
+  // QR-Codes und Etiketten
+  "qr.title": "QR-Code scannen",
+  "qr.codePlaceholder": "Code, Link oder Prozess-ID",
+  "qr.find": "Suchen",
+  "qr.scan": "Scannen",
+  "qr.scanHint": "QR-Code des Ausdrucks oder Etiketts ins Bild halten",
+  "qr.invalid": "Kein gültiger Prozess-Code.",
+  "qr.notFound": "Kein Prozess mit dieser ID in der Bibliothek dieses Geräts.",
+  "qr.verdict.current": "Aktuelle freigegebene Version (v{released}).",
+  "qr.verdict.outdated": "Veraltet: Der Ausdruck zeigt v{scanned}, freigegeben ist v{released}. Bitte den Aushang ersetzen.",
+  "qr.verdict.unreleased": "v{scanned} ist nicht freigegeben; freigegeben ist v{released}.",
+  "qr.verdict.noRelease": "Es ist noch keine Version freigegeben – der Ausdruck ist ein Entwurf.",
+  "qr.settings": "Link in QR-Codes",
+  "qr.baseUrl": "Adresse der App",
+  "qr.thisApp": "Diese App",
+  "qr.baseUrlHint": "Mit Adresse öffnet auch die Kamera-App eines Telefons den Prozess; leer = Code nur für den Scanner hier.",
+  "qr.baseUrlInvalid": "Bitte eine vollständige Adresse mit http:// oder https:// eingeben.",
+  "qr.printLabels": "Etikettenbogen aller Prozesse (PDF)",
+  "qr.noProcesses": "Die Bibliothek enthält noch keine Prozesse.",
+  "qr.labelsError": "Der Etikettenbogen konnte nicht erstellt werden.",
+  "labels.title": "QR-Etiketten",
+  "labels.hint": "Scannen öffnet die aktuelle Anleitung",
+  "labels.fileName": "QR-Etiketten.pdf",
+};
+
+export default de;
+export type MessageKey = keyof typeof de;
@@ -0,0 +1,491 @@
+import { MessageKey } from "./de";
+
+/** ------------------------
+ *  Englische Texte der Oberfläche – Typ erzwingt alle Schlüssel des deutschen Katalogs
+ *  ------------------------ */
+const en: Record<MessageKey, string> = {
+  // Allgemein
+  "common.close": "Close",
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.remove": "Remove",
+  "common.noName": "unnamed",
+  "common.loading": "Loading …",
+  "common.noHits": "No results.",
+  "common.language": "Language",
+
+  // Fachbegriffe
+  "step.word": "Step",
+  "severity.none": "Normal",
+  "severity.hint": "Note",
+  "severity.caution": "Caution",
+  "severity.danger": "Danger",
+  "resource.tool": "Tool",
+  "resource.material": "Material",
+  "resource.ppe": "PPE",
+  "pdfTemplate.stacked": "Continuous",
+  "pdfTemplate.stepPerPage": "One step per page",
+  "pdfTemplate.twoColumn": "Photo grid beside text",
+  "approval.draft": "Draft",
+  "approval.review": "In review",
+  "approval.approved": "Approved",
+  "approval.rejected": "Rejected",
+  "approval.obsolete": "Obsolete",
+  "version.missing": "Please enter a version.",
+  "version.invalid": "Invalid version. Allowed are e.g. 1.0, 1.10 or 1.0.0.",
+
+  // Freigabe
+  "approval.error.noVersion": "No version has been submitted yet.",
+  "approval.error.name": "Please enter a name.",
+  "approval.error.notInReview": "The version is not in review.",
+  "approval.error.alreadyReviewed": "The version has already been reviewed.",
+  "approval.error.reviewerIsAuthor": "Reviewer and author must be different people.",
+  "approval.error.notReviewed": "The version must be reviewed before approval.",
+  "approval.error.approverIsReviewer": "Reviewer and approver must be different people.",
+  "approval.error.approverIsAuthor": "Author and approver must be different people.",
+  "approvalPanel.dialog.review": "Review version",
+  "approvalPanel.dialog.approve": "Approve version",
+  "approvalPanel.dialog.reject": "Reject version",
+  "approvalPanel.signatureOf": "Signature of {name}",
+  "approvalPanel.noVersion": "Draft – no version submitted for review yet.",
+  "approvalPanel.workingDraft": "Working copy: draft (not submitted)",
+  "approvalPanel.awaitingApproval": "reviewed, approval pending",
+  "approvalPanel.awaitingReview": "review pending",
+  "approvalPanel.created": "Prepared",
+  "approvalPanel.reviewed": "Reviewed",
+  "approvalPanel.previouslyRejected": "Previously rejected",
+  "approvalPanel.resubmitHint": "Submit for review again after revising.",
+  "approvalPanel.review": "Review",
+  "approvalPanel.approve": "Approve",
+  "approvalPanel.reject": "Reject",
+
+  // Unterschrift
+  "signature.error.name": "Please enter a name.",
+  "signature.error.ink": "Please sign in the box.",
+  "signature.error.reason": "Please give a reason for the rejection.",
+  "signature.name": "Name",
+  "signature.signHere": "Sign here",
+  "signature.clear": "Clear",
+  "signature.reason": "Reason for rejection",
+  "signature.sign": "Sign",
+  "signature.reject": "Reject",
+
+  // PDF-Layout
+  "layout.logoError": "The logo could not be loaded.",
+  "layout.template": "Template",
+  "layout.portrait": "Portrait",
+  "layout.landscape": "Landscape",
+  "layout.separate": "One PDF per language",
+  "layout.bilingual": "Bilingual side by side",
+  "layout.coverPage": "Cover page with approval block",
+  "layout.toc": "Table of contents",
+  "layout.company": "Company name",
+  "layout.changeLogo": "Change logo",
+  "layout.chooseLogo": "Choose logo",
+
+  // Schritt-Navigator
+  "navigator.empty": "empty",
+  "navigator.photos": "{count} photo(s)",
+  "navigator.up": "Move up",
+  "navigator.down": "Move down",
+  "navigator.insertBefore": "+ before",
+  "navigator.insertAfter": "+ after",
+  "navigator.confirmDelete": "Delete step {index} with all photos and texts?",
+
+  // Sprachen eines Prozesses
+  "languages.processName": "Process name",
+  "languages.stepTitle": "Step {index} · Title",
+  "languages.stepText": "Step {index} · Text {number}",
+  "languages.confirmRemove": "Remove {language} from the process? Existing translations are kept and reappear when the language is added again.",
+  "languages.primary": "primary language",
+  "languages.add": "Add language …",
+  "languages.missing": "{count} translation(s) missing",
+  "languages.complete": "complete",
+
+  // Vorlagen
+  "templates.template": "Template",
+  "templates.empty": "Empty process",
+  "templates.steps": "{count} steps",
+  "templates.delete": "Delete template",
+  "templates.replaces": "replaces {placeholder}",
+
+  // Suche
+  "search.stepTitle": "Step {index} – Title",
+  "search.jump": "Go to step",
+  "search.more": "… and {count} more results",
+  "search.importantOnly": "only note/caution/danger",
+  "search.allStatus": "All statuses",
+  "search.version": "Version",
+  "search.changedFrom": "changed from",
+  "search.changedTo": "to",
+
+  // Durchführung
+  "execution.status.running": "Running",
+  "execution.status.completed": "Completed",
+  "execution.status.aborted": "Aborted",
+  "executions.confirmDelete": "Delete the log from {date} ({operator})?",
+  "executions.notReleased": "Only possible once a version has been approved.",
+  "executions.releasedVersion": "The approved version v{version} is carried out.",
+  "executions.operatorMissing": "Please enter the operator's name.",
+  "executions.start": "Start execution",
+  "executions.done": "{done}/{total} done",
+  "executions.deviations": "{count} deviation(s)",
+  "executions.resume": "Resume",
+  "executions.view": "View",
+
+  // Durchführungsprotokoll (PDF)
+  "protocol.title": "Execution log",
+  "protocol.fileName": "Log",
+  "protocol.operator": "Operator",
+  "protocol.started": "Started",
+  "protocol.finished": "Finished",
+  "protocol.status": "Status",
+  "protocol.done": "Done",
+  "protocol.doneOf": "{done} of {total} items",
+  "protocol.deviations": "Deviations",
+  "protocol.deviation": "Deviation",
+  "protocol.comment": "Comment",
+  "protocol.proofPhoto": "Proof photo",
+  "protocol.signature": "Date, signature",
+  "protocol.page": "Page {page} of {pages}",
+
+  // Fotos
+  "photo.loadError": "The photo could not be loaded.",
+  "photo.processing": "Processing …",
+
+  // Durchführung (Vollbild)
+  "execution.confirmFinish": "{count} item(s) are not checked. Finish the execution anyway?",
+  "execution.confirmAbort": "Abort the execution? The log is kept as “Aborted”.",
+  "execution.subtitle": "Execution · {operator} · since {date}",
+  "execution.abort": "Abort",
+  "execution.pause": "Pause",
+  "execution.headingCompleted": "Execution completed",
+  "execution.headingAborted": "Execution aborted",
+  "execution.summary": "{done} of {total} items done",
+  "execution.finishedAt": "Finished on {date}",
+  "execution.exportPdf": "Log as PDF",
+  "execution.stepOf": "Step {step} of {steps}",
+  "execution.photosMissing": "The photos of this version are no longer in the process.",
+  "execution.describeDeviation": "Describe the deviation",
+  "execution.noDeviation": "No deviation",
+  "execution.optional": "optional",
+  "execution.replaceProof": "Replace proof photo",
+  "execution.takeProof": "Take proof photo",
+  "execution.back": "Back",
+  "execution.next": "Next",
+  "execution.finish": "Finish",
+
+  // Import
+  "import.title": "Check import",
+  "import.format": "file format v{version}",
+  "import.current": "current v{version}",
+  "import.name": "Name",
+  "import.version": "Version",
+  "import.created": "Created",
+  "import.steps": "Steps",
+  "import.photos": "Photos",
+  "import.texts": "Texts",
+  "import.versions": "Versions",
+  "import.languages": "Languages",
+  "import.migrated": "Updated from an older format",
+  "import.errors": "Errors – import not possible",
+  "import.repairs": "Corrected during import ({count})",
+  "import.valid": "The file is valid.",
+  "import.hint": "The import creates a new library entry and opens it; the current process stays in the library.",
+  "import.confirm": "Import",
+
+  // Dateiformat (Import-Prüfung)
+  "schema.migration.v1": "Added IDs for steps and texts, converted “important” to the “Danger” highlight",
+  "schema.migration.v2": "Process and step IDs as UUIDs (for QR codes and checking printed PDFs)",
+  "schema.noMigration": "No migration from format version {version} available.",
+  "schema.path.file": "File",
+  "schema.path.process": "Process",
+  "schema.path.layout": "PDF layout",
+  "schema.path.history": "Versions",
+  "schema.path.version": "Version {version}",
+  "schema.path.photo": "Photo {number}",
+  "schema.path.annotation": "Marking {number}",
+  "schema.path.text": "Text {number}",
+  "schema.path.resource": "Resource {number}",
+  "schema.idMissing": "ID missing – will be added.",
+  "schema.step.invalid": "Not a valid step – imported as an empty step.",
+  "schema.step.title": "Title is not text – will be removed.",
+  "schema.step.duration": "Invalid duration “{value}” – will be removed.",
+  "schema.step.photos": "Photos are not a list – will be discarded.",
+  "schema.step.texts": "Texts are not a list – will be discarded.",
+  "schema.step.resources": "Resources are not a list – will be discarded.",
+  "schema.photo.invalid": "Not an embedded image – photo will be removed.",
+  "schema.photo.annotations": "Markings are not a list – will be discarded.",
+  "schema.photo.annotation": "Unknown marking – will be removed.",
+  "schema.text.content": "Content missing or not text – imported as empty text.",
+  "schema.text.severity": "Unknown highlight “{value}” – imported as “Normal”.",
+  "schema.resource.invalid": "Invalid resource – will be removed.",
+  "schema.file.noProcess": "The file does not contain a process object.",
+  "schema.file.version": "Invalid format version “{value}”.",
+  "schema.file.newer": "The file comes from a newer program version (format v{version}, supported up to v{supported}). Please update the application.",
+  "schema.process.name": "Process name missing.",
+  "schema.process.steps": "Step list (“steps”) missing or not a list.",
+  "schema.process.version": "Invalid version “{value}” – set to 1.0.",
+  "schema.process.createdAt": "Creation date missing or invalid – the current date is used.",
+  "schema.process.languages": "Invalid language list – only German is imported.",
+  "schema.process.noSteps": "No steps – an empty step is created.",
+  "schema.layout.invalid": "Invalid settings{fields} – default values are used.",
+  "schema.history.invalid": "Version history is not a list – will be discarded.",
+  "schema.version.invalid": "Not a valid version entry – imported empty.",
+  "schema.version.approval": "Invalid approval data – version is treated as “In review”.",
+  "schema.version.steps": "Step list missing – version imported without steps.",
+
+  // Foto-Editor und Markierungen
+  "common.apply": "Apply",
+  "photo.editError": "The photo could not be edited.",
+  "photo.editTitle": "Edit photo",
+  "photo.cropHint": "Drag an area to crop.",
+  "photo.rotateLeft": "Rotate left",
+  "photo.rotateRight": "Rotate right",
+  "photo.resetCrop": "Reset crop",
+  "annotation.title": "Mark photo",
+  "annotation.arrow": "Arrow",
+  "annotation.rect": "Rectangle",
+  "annotation.circle": "Circle",
+  "annotation.marker": "Number",
+  "annotation.label": "Text",
+  "annotation.labelPrompt": "Label:",
+  "annotation.noText": "– no text –",
+  "annotation.removeAll": "Remove all",
+
+  // Kamera
+  "camera.unavailable": "Camera not available or access denied. Please add photos via “Choose file”.",
+  "camera.retaking": "Retaking photo {number}",
+  "camera.shot": "Shot {number}",
+  "camera.retake": "Retake",
+  "camera.switch": "Switch camera",
+  "camera.shoot": "Take photo",
+  "camera.burst": "Burst ({count})",
+
+  // Schrittbibliothek
+  "stepLibrary.namePrompt": "Name of the library step:",
+  "stepLibrary.nameMissing": "Please enter a name for the library step.",
+  "stepLibrary.saveError": "The step could not be saved to the library.",
+  "stepLibrary.confirmUpdate": "Overwrite “{name}” with the current step (revision {revision})? Other processes keep their copy and are shown as outdated.",
+  "stepLibrary.updateError": "The library step could not be updated.",
+  "stepLibrary.confirmDelete": "Delete “{name}” from the step library?",
+  "stepLibrary.copiesKept": "The copies in {count} process(es) are kept.",
+  "stepLibrary.saveCurrent": "Save current step",
+  "stepLibrary.update": "Update “{name}”",
+  "stepLibrary.empty": "No steps in the library yet.",
+  "stepLibrary.revision": "Rev. {revision}",
+  "stepLibrary.contents": "{photos} photo(s), {texts} text(s)",
+  "stepLibrary.usedIn": "in {count} process(es)",
+  "stepLibrary.outdatedCount": "{count} outdated",
+  "stepLibrary.outdated": "outdated",
+  "stepLibrary.insert": "Insert",
+
+  // Bibliothek
+  "process.nameMissing": "Please enter a process name.",
+  "library.title": "Library",
+  "library.loadError": "The local library could not be loaded.",
+  "library.saveError": "The change could not be saved (storage full or database blocked).",
+  "library.renamePrompt": "New process name:",
+  "library.confirmDelete": "Permanently delete “{name}” (v{version}) including its execution logs?",
+  "library.searchPlaceholder": "Search names, step titles and texts …",
+  "library.reset": "Reset",
+  "library.empty": "No processes saved yet.",
+  "library.hits": "{hits} result(s) in {processes} process(es)",
+  "library.changedAt": "changed {date}",
+  "library.open": "Open",
+  "library.noMatch": "No processes match the filters.",
+  "library.created": "Created",
+  "library.name": "Name",
+  "library.changed": "Changed",
+  "library.version": "Version",
+  "library.status": "Status",
+  "library.duplicate": "Duplicate",
+  "library.rename": "Rename",
+
+  // Paket-Import und Schrift
+  "bundle.noManifest": "manifest.json is missing from the ZIP.",
+  "bundle.unknownFormat": "Unknown package format.",
+  "bundle.fileMissing": "File missing from package: {path}",
+  "bundle.checksum": "Checksum mismatch: {path}",
+  "bundle.noProcess": "The process file is missing from the package.",
+  "fonts.loadError": "Font could not be loaded: {url}",
+  "library.copy": "Copy",
+
+  // Versionsverlauf
+  "history.textAdded": "new: “{text}”",
+  "history.textRemoved": "removed: “{text}”",
+  "history.textChanged": "“{before}” → “{after}”",
+  "history.translationChanged": "translation changed",
+  "history.textMoved": "moved (previously {before})",
+  "history.noDifferences": "No differences.",
+  "history.stepAdded": "Step {index} added",
+  "history.stepRemoved": "Step {index} removed",
+  "history.stepMoved": "Step {index} (previously {before}) moved",
+  "history.stepChanged": "Step {index} changed",
+  "history.photos": "{count} photo(s)",
+  "history.photosReordered": "photos reordered",
+  "history.annotationsChanged": "markings changed on {count} photo(s)",
+  "history.metaChanged": "{fields} changed",
+  "history.meta.title": "Title",
+  "history.meta.titleTranslations": "Title translation",
+  "history.meta.durationMin": "Duration",
+  "history.meta.resources": "Resources",
+  "history.empty": "No submitted version yet.",
+  "history.readOnly": "read-only",
+  "history.confirmRestore": "Restore the state of version {version}? Changes not finalized will be lost.",
+  "history.restore": "Restore",
+  "history.current": "Current state",
+  "history.hide": "Hide",
+  "history.compare": "Compare",
+
+  // Hauptansicht
+  "app.title": "Process documentation",
+  "app.offline": "Offline",
+  "app.offlineHint": "Processes, photos and PDF export keep working; everything is stored locally.",
+  "app.install": "Install app",
+  "app.undo": "Undo (Ctrl+Z)",
+  "app.undoLabel": "Undo: {label} (Ctrl+Z)",
+  "app.redo": "Redo (Ctrl+Shift+Z)",
+  "app.redoLabel": "Redo: {label} (Ctrl+Shift+Z)",
+  "app.save": "Save",
+  "app.exportAs": "Export as …",
+  "app.export.zip": "ZIP package (images as files)",
+  "app.export.html": "HTML page",
+  "app.export.md": "Markdown with image folder",
+  "app.load": "Open",
+  "app.exportPdf": "Export PDF",
+  "app.updateReady": "A new version is available. Unsaved changes are stored before reloading.",
+  "app.updateNow": "Update now",
+  "update.confirmDraftText": "The text in the input field has not been added yet and will be lost when updating. Update anyway?",
+  "update.confirmUnsaved": "Unsaved changes could not be stored locally and will be lost when updating. Update anyway?",
+  "app.processNotFound": "The process was not found in the library.",
+  "app.openError": "The process could not be opened.",
+  "app.confirmPlaceholders": "Placeholders left empty remain as {{…}} in the text. Create anyway?",
+  "app.createError": "The process could not be created in the local library.",
+  "app.confirmDeleteTemplate": "Delete template “{name}”? Processes already created stay unchanged.",
+  "app.photosFailed": "{count} photo(s) could not be read.",
+  "app.stepIncomplete": "Every step needs at least one photo and one text.",
+  "app.confirmReplaceStep": "Replace the step with revision {revision} of “{name}”? Your changes to this step will be lost.",
+  "app.templateNamePrompt": "Template name (placeholders in the text as {{Name}}):",
+  "app.templateNameMissing": "Please enter a name for the template.",
+  "app.templateSaveError": "The template could not be saved.",
+  "app.templateDeleteError": "The template could not be deleted.",
+  "app.exportError": "The export failed.",
+  "app.confirmLoadUnsaved": "The current process has changes that were not saved as a file (they remain in the library). Open another file anyway?",
+  "app.invalidJson": "Not valid JSON.",
+  "app.unknownError": "Unknown error.",
+  "app.confirmMissingTranslations": "{count} translation(s) are missing ({langs}). The {primary} text is used there. Export anyway?",
+  "app.fontError": "The PDF font could not be loaded. Please check the connection and export again.",
+  "app.pdfError": "The PDF could not be created (e.g. a photo or logo is unreadable).",
+  "app.executionSaveError": "The run could not be saved.",
+  "app.confirmDropAnnotations": "This removes the markings on this photo. Continue?",
+  "app.processName": "Process name (first step)",
+  "app.processNamePlaceholder": "e.g. Check incoming goods",
+  "app.version": "Version",
+  "app.versionPlaceholder": "e.g. 1.0",
+  "app.create": "Create process",
+  "app.editLanguage": "Editing language",
+  "app.stepBack": "Previous step",
+  "app.finishStep": "Finish step",
+  "app.outdatedCopy": "Outdated copy of “{name}” (rev. {revision}, current rev. {current})",
+  "app.noPrimaryTitle": "no title in the primary language",
+  "app.stepTitle": "Title",
+  "app.titlePlaceholder": "optional, e.g. Unlock machine",
+  "app.duration": "Duration (min)",
+  "app.durationPlaceholder": "estimated",
+  "app.resources": "Tools, material, PPE",
+  "app.resourcePlaceholder": "e.g. Torque wrench 25 Nm",
+  "app.add": "Add",
+  "app.photos": "Photos",
+  "app.camera": "Camera",
+  "app.imageSettings": "Image settings",
+  "app.maxSize": "Max. resolution",
+  "app.original": "Original",
+  "app.quality": "Quality",
+  "app.imageFormat": "Format",
+  "app.photoAlt": "Photo {number}",
+  "app.annotate": "Mark up",
+  "app.edit": "Edit",
+  "app.texts": "Texts",
+  "app.textsIn": "Texts ({language})",
+  "app.translateHint": "New texts, order and emphasis are edited in the primary language ({language}).",
+  "app.translationPlaceholder": "Translation ({language})",
+  "app.textPlaceholder": "Description for step {index}",
+  "app.severity": "Emphasis",
+  "app.addText": "Add text",
+  "app.moveTo": "Move to …",
+  "app.author": "Author",
+  "app.authorMissing": "Please enter an author before submitting.",
+  "app.changeNote": "Change note for the next version",
+  "app.bumpKind": "Kind of change:",
+  "app.bump.major": "Major version",
+  "app.bump.minor": "Minor version",
+  "app.bump.patch": "Patch",
+  "app.autosaveFailed": "Saving locally failed – please save a file.",
+  "app.draftHint": "Versions that are not approved are exported as drafts.",
+  "app.submit": "Submit for review",
+  "app.steps": "Steps",
+  "app.searchProcess": "Search this process …",
+  "app.stepLibrary": "Step library",
+  "app.saveAsTemplate": "Save process as template",
+  "app.preview": "Preview – {name} (v{version})",
+  "app.approval": "Approval",
+  "app.history": "Versions",
+  "app.layout": "PDF layout",
+  "app.languages": "Languages",
+  "app.execution": "Runs",
+
+  // Rückgängig
+  "undo.layout": "PDF layout changed",
+  "undo.textAdded": "Text added",
+  "undo.textRemoved": "Text removed",
+  "undo.severity": "Emphasis changed",
+  "undo.meta": "Step details changed",
+  "undo.resourceAdded": "Resource added",
+  "undo.resourceRemoved": "Resource removed",
+  "undo.translation": "Translation changed",
+  "undo.languages": "Languages changed",
+  "undo.textChanged": "Text changed",
+  "undo.textsReordered": "Texts reordered",
+  "undo.textMoved": "Text moved",
+  "undo.photoAdded": "Photo added",
+  "undo.photosAdded": "Photos added",
+  "undo.photoRemoved": "Photo removed",
+  "undo.photoEdited": "Photo edited",
+  "undo.annotations": "Markings changed",
+  "undo.stepFinished": "Step finished",
+  "undo.stepBack": "Step back",
+  "undo.stepSwitched": "Step switched",
+  "undo.stepMoved": "Step moved",
+  "undo.stepInserted": "Step inserted",
+  "undo.libraryStepInserted": "Library step inserted",
+  "undo.libraryStepUpdated": "Library step updated",
+  "undo.stepDeleted": "Step deleted",
+  "undo.versionRestored": "Version restored",
+
+  // QR-Codes und Etiketten
+  "qr.title": "Scan QR code",
+  "qr.codePlaceholder": "Code, link or process ID",
+  "qr.find": "Find",
+  "qr.scan": "Scan",
+  "qr.scanHint": "Hold the QR code of the printout or label in front of the camera",
+  "qr.invalid": "Not a valid process code.",
+  "qr.notFound": "No process with this ID in this device’s library.",
+  "qr.verdict.current": "Current approved version (v{released}).",
+  "qr.verdict.outdated": "Outdated: the printout shows v{scanned}, the approved version is v{released}. Please replace the printout.",
+  "qr.verdict.unreleased": "v{scanned} is not approved; the approved version is v{released}.",
+  "qr.verdict.noRelease": "No version has been approved yet – the printout is a draft.",
+  "qr.settings": "Link in QR codes",
+  "qr.baseUrl": "App address",
+  "qr.thisApp": "This app",
+  "qr.baseUrlHint": "With an address, a phone’s camera app opens the process too; empty = code only for the scanner here.",
+  "qr.baseUrlInvalid": "Please enter a full address starting with http:// or https://.",
+  "qr.printLabels": "Label sheet for all processes (PDF)",
+  "qr.noProcesses": "The library does not contain any processes yet.",
+  "qr.labelsError": "The label sheet could not be created.",
+  "labels.title": "QR labels",
+  "labels.hint": "Scan to open the current instructions",
+  "labels.fileName": "QR-labels.pdf",
+};
+
+export default en;
@@ -0,0 +1,48 @@
+import { bumpVersion, parseVersion, versionError } from "./model";
+
+describe("parseVersion", () => {
+  it("zerlegt zwei- und dreistellige Versionen", () => {
+    expect(parseVersion("1.0")).toEqual([1, 0]);
+    expect(parseVersion("1.10")).toEqual([1, 10]);
+    expect(parseVersion(" 2.0.3 ")).toEqual([2, 0, 3]);
+  });
+
+  it("lehnt ungültige Eingaben ab", () => {
+    for (const v of ["", "1", "1.", "v1.0", "1.0.0.0", "1.a", "-1.0", "1,0"]) {
+      expect(parseVersion(v)).toBeNull();
+    }
+  });
+
+  it("meldet fehlende und ungültige Versionen", () => {
+    expect(versionError("1.0")).toBeNull();
+    expect(versionError(" ")).not.toBeNull();
+    expect(versionError("eins")).not.toBeNull();
+  });
+});
+
+describe("bumpVersion", () => {
+  it("erhöht Minor- und Major-Version", () => {
+    expect(bumpVersion("1.0", "minor")).toBe("1.1");
+    expect(bumpVersion("1.4", "major")).toBe("2.0");
+  });
+
+  it("zählt numerisch statt als Dezimalzahl", () => {
+    expect(bumpVersion("1.9", "minor")).toBe("1.10");
+    expect(bumpVersion("1.10", "minor")).toBe("1.11");
+  });
+
+  it("erhält dreistellige Versionen", () => {
+    expect(bumpVersion("2.3.4", "patch")).toBe("2.3.5");
+    expect(bumpVersion("2.3.4", "minor")).toBe("2.4.0");
+    expect(bumpVersion("2.3.4", "major")).toBe("3.0.0");
+  });
+
+  it("erhöht bei zweistelligen Versionen statt Patch die Minor-Version", () => {
+    expect(bumpVersion("1.2", "patch")).toBe("1.3");
+  });
+
+  it("beginnt bei ungültiger Version mit 1.0", () => {
+    expect(bumpVersion("abc", "minor")).toBe("1.1");
+    expect(bumpVersion("", "major")).toBe("2.0");
+  });
+});
@@ -0,0 +1,488 @@
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Typen & Utils
+ *  ------------------------ */
+/** Hervorhebung eines Textes; ersetzt das frühere `important` (true → "danger") */
+export type Severity = "none" | "hint" | "caution" | "danger";
+
+export const SEVERITIES: { key: Severity; color: string; rgb: [number, number, number] }[] = [
+  { key: "none", color: "#111827", rgb: [0, 0, 0] },
+  { key: "hint", color: "#1d4ed8", rgb: [29, 78, 216] },
+  { key: "caution", color: "#b45309", rgb: [180, 83, 9] },
+  { key: "danger", color: "#b91c1c", rgb: [200, 0, 0] },
+];
+
+export function severityInfo(s: Severity) {
+  return SEVERITIES.find((x) => x.key === s) || SEVERITIES[0];
+}
+
+export function severityLabel(s: Severity) {
+  return t(`severity.${s}`);
+}
+
+export interface TextItem {
+  id: string;
+  content: string;     // in der Hauptsprache des Prozesses
+  severity: Severity;
+  translations?: Translations;
+}
+
+/** Übersetzungen je Sprachcode; der Wert in der Hauptsprache steht im eigentlichen Feld */
+export type Translations = Record<string, string>;
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: "de", label: "Deutsch" },
+  { code: "en", label: "English" },
+  { code: "pl", label: "Polski" },
+  { code: "cs", label: "Čeština" },
+  { code: "tr", label: "Türkçe" },
+  { code: "ro", label: "Română" },
+  { code: "hu", label: "Magyar" },
+  { code: "it", label: "Italiano" },
+  { code: "fr", label: "Français" },
+];
+
+export function languageLabel(code: string) {
+  return LANGUAGES.find((l) => l.code === code)?.label || code;
+}
+
+export type ResourceKind = "tool" | "material" | "ppe";
+
+export const RESOURCE_KINDS: ResourceKind[] = ["tool", "material", "ppe"];
+
+export function resourceKindLabel(k: ResourceKind) {
+  return t(`resource.${k}`);
+}
+
+/** Benötigtes Werkzeug, Material oder persönliche Schutzausrüstung */
+export interface Resource {
+  kind: ResourceKind;
+  name: string;
+}
+
+/** Ohne `labels` in der Sprache der Oberfläche, sonst z. B. in der Dokumentsprache */
+export function formatResource(r: Resource, labels?: Record<ResourceKind, string>) {
+  return `${labels ? labels[r.kind] : resourceKindLabel(r.kind)}: ${r.name}`;
+}
+
+export type AnnotationKind = "arrow" | "rect" | "circle" | "marker" | "label";
+
+/** Vektor-Markierung auf einem Foto; Koordinaten relativ zur Bildgröße (0..1) */
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  color: string;
+  x1: number;          // Pfeil: Start; Rechteck/Kreis: Ecke; Markierung/Text: Position
+  y1: number;
+  x2: number;          // Pfeil: Spitze; Rechteck/Kreis: gegenüberliegende Ecke
+  y2: number;
+  text?: string;       // Nummer der Markierung bzw. Beschriftung
+  textId?: string;     // mit Markierung verknüpfter TextItem
+}
+
+export interface StepData {
+  id: string;          // stabil über Umsortierungen/Versionen; neue Schritte als UUID
+  index: number;       // Schritt-Nr. (1-basiert)
+  photos: string[];    // DataURLs
+  annotations?: Annotation[][]; // je Foto, gleicher Index wie photos
+  texts: TextItem[];   // 1.1, 1.2 …
+  title?: string;
+  titleTranslations?: Translations;
+  durationMin?: number; // geschätzte Dauer in Minuten
+  resources?: Resource[];
+  done?: boolean;
+  origin?: StepOrigin; // Kopie eines Bibliotheksschritts
+}
+
+/** Herkunft eines aus der Schrittbibliothek eingefügten Schritts; ältere Revision = veraltete Kopie */
+export interface StepOrigin {
+  libraryId: string;
+  revision: number;
+}
+
+/** Schrittangaben außerhalb von Fotos/Texten (Titel, Dauer, Hilfsmittel) */
+export type StepMeta = Pick<StepData, "title" | "titleTranslations" | "durationMin" | "resources">;
+
+export function stepMeta(s: StepData): StepMeta {
+  return { title: s.title, titleTranslations: s.titleTranslations, durationMin: s.durationMin, resources: s.resources };
+}
+
+/** `word` z. B. aus den PDF-Texten der Dokumentsprache; sonst Sprache der Oberfläche */
+export function stepHeading(s: Pick<StepData, "index" | "title">, word = t("step.word")) {
+  return s.title ? `${word} ${s.index} – ${s.title}` : `${word} ${s.index}`;
+}
+
+export interface ProcessData {
+  id: string;          // UUID, stabil über Versionen, Umbenennen, Export und Import (QR-Code)
+  name: string;
+  version: string;     // z. B. "1.0"
+  createdAt: string;   // ISO
+  steps: StepData[];
+  history?: VersionSnapshot[]; // älteste zuerst
+  layout?: PdfLayout;  // fehlt bei älteren Dateien → DEFAULT_PDF_LAYOUT
+  languages?: string[]; // erste = Hauptsprache; fehlt → nur Deutsch
+  nameTranslations?: Translations;
+}
+
+export type PdfTemplate = "stacked" | "stepPerPage" | "twoColumn";
+
+/** PDF-Layout; wird mit dem Prozess gespeichert, damit erneute Exporte identisch aussehen */
+export interface PdfLayout {
+  template: PdfTemplate;   // "stacked" = Fotos untereinander, fortlaufend
+  format: "a4" | "a5";
+  orientation: "portrait" | "landscape";
+  coverPage: boolean;      // Deckblatt mit Logo, Metadaten, Freigabeblock
+  toc: boolean;            // Inhaltsverzeichnis mit Links
+  company: string;
+  logo?: string;           // DataURL
+  languageMode: "separate" | "bilingual"; // je Sprache ein PDF oder zwei Sprachen nebeneinander
+  secondLanguage?: string; // zweite Spalte im zweisprachigen PDF
+}
+
+export const PDF_TEMPLATES: PdfTemplate[] = ["stacked", "stepPerPage", "twoColumn"];
+
+export function pdfTemplateLabel(k: PdfTemplate) {
+  return t(`pdfTemplate.${k}`);
+}
+
+export const DEFAULT_PDF_LAYOUT: PdfLayout = {
+  template: "stacked",
+  format: "a4",
+  orientation: "portrait",
+  coverPage: false,
+  toc: false,
+  company: "",
+  languageMode: "separate",
+};
+
+export function normalizeLayout(l: any): PdfLayout {
+  const d = DEFAULT_PDF_LAYOUT;
+  return {
+    template: PDF_TEMPLATES.includes(l?.template) ? l.template : d.template,
+    format: l?.format === "a5" ? "a5" : d.format,
+    orientation: l?.orientation === "landscape" ? "landscape" : d.orientation,
+    coverPage: typeof l?.coverPage === "boolean" ? l.coverPage : d.coverPage,
+    toc: typeof l?.toc === "boolean" ? l.toc : d.toc,
+    company: typeof l?.company === "string" ? l.company : d.company,
+    ...(typeof l?.logo === "string" && l.logo.startsWith("data:image/") ? { logo: l.logo } : {}),
+    languageMode: l?.languageMode === "bilingual" ? "bilingual" : d.languageMode,
+    ...(typeof l?.secondLanguage === "string" && l.secondLanguage ? { secondLanguage: l.secondLanguage } : {}),
+  };
+}
+
+/** Unveränderlicher Stand eines finalisierten Prozesses */
+export interface VersionSnapshot {
+  version: string;
+  createdAt: string;   // ISO, Zeitpunkt der Finalisierung
+  author: string;
+  note: string;        // Änderungsnotiz
+  name: string;
+  nameTranslations?: Translations; // fehlt bei Versionen von vor der Speicherung im Snapshot
+  steps: StepData[];
+  approval?: Approval; // fehlt bei älteren Dateien → „In Prüfung“
+}
+
+/** Freigabe-Workflow je Version (ISO 9001); der nicht eingereichte Arbeitsstand ist der Entwurf */
+export type ApprovalStatus = "review" | "approved" | "rejected" | "obsolete";
+
+export const APPROVAL_STATUS: { key: ApprovalStatus; color: string }[] = [
+  { key: "review", color: "#b45309" },
+  { key: "approved", color: "#15803d" },
+  { key: "rejected", color: "#b91c1c" },
+  { key: "obsolete", color: "#6b7280" },
+];
+
+export function approvalStatusInfo(s: ApprovalStatus) {
+  return APPROVAL_STATUS.find((x) => x.key === s) || APPROVAL_STATUS[0];
+}
+
+export function approvalStatusLabel(s: ApprovalStatus) {
+  return t(`approval.${s}`);
+}
+
+/** Name, Zeitpunkt und gezeichnete Unterschrift einer Prüfung/Freigabe/Ablehnung */
+export interface Signature {
+  name: string;
+  date: string;        // ISO
+  image?: string;      // PNG-DataURL der Unterschrift
+  comment?: string;    // Begründung bei Ablehnung
+}
+
+export interface Approval {
+  status: ApprovalStatus;
+  reviewed?: Signature;
+  approved?: Signature;
+  rejected?: Signature;
+}
+
+export function approvalOf(snap: Pick<VersionSnapshot, "approval">): Approval {
+  return snap.approval || { status: "review" };
+}
+
+export function uid() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/** Zufällige UUID (v4) für Prozesse und Schritte, die auch außerhalb der App eindeutig sein müssen;
+ *  Math.random nur, wo crypto.randomUUID fehlt (ältere Browser, unsichere Herkunft per http) */
+export function uuid() {
+  const c = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (c?.randomUUID) return c.randomUUID();
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (ch) => {
+    const r = (Math.random() * 16) | 0;
+    return (ch === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(v: unknown): v is string {
+  return typeof v === "string" && UUID_RE.test(v);
+}
+
+/** Schritt-IDs älterer Stände (8 Zeichen) auf UUIDs abbilden; dieselbe alte ID erhält überall dieselbe UUID,
+ *  damit Verlauf und Durchführungsprotokolle weiter zum Schritt passen */
+export function stepIdUpgrade() {
+  const ids = new Map<string, string>();
+  return (id: unknown) => {
+    if (isUuid(id)) return id;
+    if (typeof id !== "string" || !id) return uuid();
+    if (!ids.has(id)) ids.set(id, uuid());
+    return ids.get(id)!;
+  };
+}
+
+/** Prozess mit UUIDs für alle Schritte im Arbeitsstand und in allen Versionen */
+export function withStepUuids(p: ProcessData, upgrade = stepIdUpgrade()): ProcessData {
+  const steps = (list: StepData[]) => list.map((s) => ({ ...s, id: upgrade(s.id) }));
+  return { ...p, steps: steps(p.steps), ...(p.history ? { history: p.history.map((h) => ({ ...h, steps: steps(h.steps) })) } : {}) };
+}
+
+/** Noch Schritte mit IDs von vor den UUIDs? */
+export function hasLegacyStepIds(p: Pick<ProcessData, "steps" | "history">) {
+  return [p.steps, ...(p.history || []).map((h) => h.steps)].some((list) => list.some((s) => !isUuid(s.id)));
+}
+
+export function newStep(index: number): StepData {
+  return { id: uuid(), index, photos: [], texts: [] };
+}
+
+/** Schrittnummern nach Einfügen/Verschieben/Löschen neu vergeben */
+export function ensureIndices(p: ProcessData) {
+  for (let i = 0; i < p.steps.length; i++) {
+    p.steps[i].index = i + 1;
+  }
+}
+
+/** Markierungen passend zu den Fotos eines Schritts (fehlende als leere Liste) */
+export function photoAnnotations(s: { photos: string[]; annotations?: Annotation[][] }) {
+  return s.photos.map((_, i) => s.annotations?.[i] || []);
+}
+
+/** Nummern der Markierungen eines Schritts, die auf einen Text verweisen */
+export function markersForText(step: Pick<StepData, "annotations">, textId: string) {
+  return (step.annotations || [])
+    .flat()
+    .filter((a) => a.kind === "marker" && a.textId === textId)
+    .map((a) => a.text || "");
+}
+
+export const ANNOTATION_KINDS: AnnotationKind[] = ["arrow", "rect", "circle", "marker", "label"];
+
+/** Fotos werden ausschließlich als eingebettete Bilder gespeichert */
+export function isPhotoData(v: unknown): v is string {
+  return typeof v === "string" && v.startsWith("data:image/");
+}
+
+function normalizeAnnotation(a: any): Annotation | null {
+  if (!a || !ANNOTATION_KINDS.includes(a.kind)) return null;
+  const num = (v: any) => (typeof v === "number" && isFinite(v) ? Math.min(Math.max(v, 0), 1) : 0);
+  return {
+    id: String(a.id || uid()),
+    kind: a.kind,
+    color: typeof a.color === "string" ? a.color : "#dc2626",
+    x1: num(a.x1),
+    y1: num(a.y1),
+    x2: num(a.x2),
+    y2: num(a.y2),
+    ...(a.text !== undefined ? { text: String(a.text) } : {}),
+    ...(a.textId ? { textId: String(a.textId) } : {}),
+  };
+}
+
+/** Ältere Dateien kennen nur `important: boolean` */
+export function normalizeSeverity(text: any): Severity {
+  if (SEVERITIES.some((x) => x.key === text?.severity)) return text.severity;
+  return text?.important ? "danger" : "none";
+}
+
+/** Nur nicht-leere Zeichenketten übernehmen */
+export function normalizeTranslations(tr: any): Translations | undefined {
+  if (!tr || typeof tr !== "object") return undefined;
+  const out: Translations = {};
+  for (const [lang, v] of Object.entries(tr)) if (typeof v === "string" && v.trim()) out[lang] = v;
+  return Object.keys(out).length ? out : undefined;
+}
+
+function normalizeSignature(s: any): Signature | undefined {
+  if (!s || typeof s !== "object" || typeof s.name !== "string" || !s.name.trim() || isNaN(Date.parse(s.date))) return undefined;
+  return {
+    name: s.name.trim(),
+    date: s.date,
+    ...(typeof s.image === "string" && s.image.startsWith("data:image/") ? { image: s.image } : {}),
+    ...(typeof s.comment === "string" && s.comment.trim() ? { comment: s.comment.trim() } : {}),
+  };
+}
+
+/** Freigabeangaben einer Version übernehmen; unbekannt → fehlt (gilt als „In Prüfung“) */
+export function normalizeApproval(a: any): Approval | undefined {
+  if (!a || typeof a !== "object" || !APPROVAL_STATUS.some((x) => x.key === a.status)) return undefined;
+  const out: Approval = { status: a.status };
+  for (const k of ["reviewed", "approved", "rejected"] as const) {
+    const sig = normalizeSignature(a[k]);
+    if (sig) out[k] = sig;
+  }
+  return out;
+}
+
+/** Schritt aus einer Datei übernehmen und fehlende Felder auffüllen */
+export function normalizeStep(s: any, i: number): StepData {
+  // ungültige Fotos samt ihrer Markierungen verwerfen
+  const raw: unknown[] = Array.isArray(s?.photos) ? s.photos : [];
+  const keep = raw.map((_, pi) => pi).filter((pi) => isPhotoData(raw[pi]));
+  return {
+    id: String(s?.id || uuid()),
+    index: typeof s?.index === "number" ? s.index : i + 1,
+    photos: keep.map((pi) => raw[pi] as string),
+    annotations: keep.map((pi) =>
+      Array.isArray(s?.annotations?.[pi]) ? s.annotations[pi].map(normalizeAnnotation).filter(Boolean) : []
+    ),
+    texts: Array.isArray(s?.texts)
+      ? s.texts.map((x: any) => {
+          const translations = normalizeTranslations(x?.translations);
+          return { id: String(x?.id || uid()), content: typeof x?.content === "string" ? x.content : "", severity: normalizeSeverity(x), ...(translations ? { translations } : {}) };
+        })
+      : [],
+    ...(typeof s?.title === "string" && s.title.trim() ? { title: s.title.trim() } : {}),
+    ...(normalizeTranslations(s?.titleTranslations) ? { titleTranslations: normalizeTranslations(s.titleTranslations) } : {}),
+    ...(typeof s?.durationMin === "number" && s.durationMin > 0 ? { durationMin: s.durationMin } : {}),
+    resources: Array.isArray(s?.resources)
+      ? s.resources
+          .filter((r: any) => r && RESOURCE_KINDS.includes(r.kind) && String(r.name || "").trim())
+          .map((r: any) => ({ kind: r.kind, name: String(r.name).trim() }))
+      : [],
+    done: !!s?.done,
+    ...(typeof s?.origin?.libraryId === "string" && Number.isInteger(s.origin.revision) ? { origin: { libraryId: s.origin.libraryId, revision: s.origin.revision } } : {}),
+  };
+}
+
+/** Vergleichsschlüssel für Inhaltsänderungen (ohne Bearbeitungsstatus) */
+export function contentKey(p: { name: string; nameTranslations?: Translations; steps: StepData[] }) {
+  return JSON.stringify({ name: p.name, nameTranslations: p.nameTranslations, steps: p.steps.map((s) => ({ id: s.id, photos: s.photos, annotations: photoAnnotations(s), texts: s.texts, ...stepMeta(s) })) });
+}
+
+/** "45 min", "1 h 30 min" */
+export function formatDuration(min: number) {
+  const h = Math.floor(min / 60);
+  const m = Math.round(min % 60);
+  if (h === 0) return `${m} min`;
+  return m ? `${h} h ${m} min` : `${h} h`;
+}
+
+export function totalDuration(steps: StepData[]) {
+  return steps.reduce((sum, s) => sum + (s.durationMin || 0), 0);
+}
+
+/** Alle Hilfsmittel des Prozesses, je Art ohne Dubletten (Groß-/Kleinschreibung egal) */
+export function aggregateResources(steps: StepData[]) {
+  const out: Resource[] = [];
+  for (const s of steps) {
+    for (const r of s.resources || []) {
+      if (!out.some((o) => o.kind === r.kind && o.name.toLowerCase() === r.name.toLowerCase())) out.push(r);
+    }
+  }
+  return out;
+}
+
+export type VersionBump = "major" | "minor" | "patch";
+
+const VERSION_RE = /^(\d+)\.(\d+)(?:\.(\d+))?$/;
+
+/** "1.10" → [1, 10], "2.0.3" → [2, 0, 3]; null bei ungültigem Format */
+export function parseVersion(v: string): number[] | null {
+  const m = v.trim().match(VERSION_RE);
+  if (!m) return null;
+  return m.slice(1).filter((x) => x !== undefined).map((x) => parseInt(x, 10));
+}
+
+/** Fehlermeldung für die Eingabe oder null, wenn gültig */
+export function versionError(v: string) {
+  if (!v.trim()) return t("version.missing");
+  if (!parseVersion(v)) return t("version.invalid");
+  return null;
+}
+
+/** Nächste Version; Stellenzahl bleibt erhalten, "patch" nur bei dreistelligen Versionen */
+export function bumpVersion(v: string, kind: VersionBump) {
+  const parts = parseVersion(v) || [1, 0];
+  const pos = Math.min(kind === "major" ? 0 : kind === "minor" ? 1 : 2, parts.length - 1);
+  return parts.map((n, i) => (i < pos ? n : i === pos ? n + 1 : 0)).join(".");
+}
+
+/** ------------------------
+ *  Mehrsprachigkeit
+ *  ------------------------ */
+export function processLanguages(p: Pick<ProcessData, "languages">) {
+  return p.languages && p.languages.length > 0 ? p.languages : ["de"];
+}
+
+/** Wert in Sprache `lang`; leer, wenn die Übersetzung fehlt */
+export function translated(base: string | undefined, translations: Translations | undefined, lang: string, primary: string) {
+  return lang === primary ? base || "" : translations?.[lang] || "";
+}
+
+/** Übersetzung setzen bzw. bei leerem Wert entfernen */
+export function withTranslation(translations: Translations | undefined, lang: string, value: string) {
+  const out = { ...translations, [lang]: value };
+  if (!value.trim()) delete out[lang];
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** Prozess in Sprache `lang`; fehlende Übersetzungen fallen auf die Hauptsprache zurück */
+export function localizeProcess(p: ProcessData, lang: string): ProcessData {
+  const primary = processLanguages(p)[0];
+  if (lang === primary) return p;
+  return {
+    ...p,
+    name: p.nameTranslations?.[lang] || p.name,
+    steps: p.steps.map((s) => ({
+      ...s,
+      title: s.titleTranslations?.[lang] || s.title,
+      texts: s.texts.map((x) => ({ ...x, content: x.translations?.[lang] || x.content })),
+    })),
+  };
+}
+
+export interface MissingTranslation {
+  lang: string;
+  stepIndex: number | null; // Index im steps-Array; null = Prozessname
+  textId?: string;          // fehlt beim Schritttitel
+  source: string;           // Text in der Hauptsprache
+}
+
+/** Alle Texte, Schritttitel und der Prozessname ohne Übersetzung */
+export function missingTranslations(p: Pick<ProcessData, "languages" | "name" | "nameTranslations" | "steps">) {
+  const [primary, ...others] = processLanguages(p);
+  const out: MissingTranslation[] = [];
+  for (const lang of others) {
+    if (!translated(p.name, p.nameTranslations, lang, primary)) out.push({ lang, stepIndex: null, source: p.name });
+    p.steps.forEach((s, i) => {
+      if (s.title && !translated(s.title, s.titleTranslations, lang, primary)) out.push({ lang, stepIndex: i, source: s.title });
+      for (const x of s.texts) {
+        if (x.content.trim() && !translated(x.content, x.translations, lang, primary)) out.push({ lang, stepIndex: i, textId: x.id, source: x.content });
+      }
+    });
+  }
+  return out;
+}
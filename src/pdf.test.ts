@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import jsPDF from "jspdf";
+import { PdfLayout, ProcessData, StepData, normalizeLayout } from "./model";
+import { ImageResolver, renderProcessPdf } from "./pdf";
+import { loadNodeFonts } from "../cli/node";
+
+const fonts = loadNodeFonts();
+const noImages: ImageResolver = async () => null;
+
+function step(index: number, lines = 1): StepData {
+  const texts = Array.from({ length: lines }, (_, i) => ({ id: `t${index}-${i}`, content: `Text ${index}.${i + 1}`, severity: "none" as const }));
+  return { id: `s${index}`, index, title: `Titel ${index}`, photos: [], texts };
+}
+
+function process(steps: StepData[], layout: Partial<PdfLayout> = {}): ProcessData {
+  return {
+    id: "0b8582aa-f029-4fdc-809d-93ddaf4064e9",
+    name: "Montage",
+    version: "1.0",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    steps,
+    layout: normalizeLayout(layout),
+  };
+}
+
+/** Nicht typisierte Teile von jsPDF, die die Tests lesen */
+interface PdfInternals {
+  getPageInfo: (page: number) => { pageContext: { annotations: { type: string; options: { pageNumber?: number } }[] } };
+}
+interface PdfOutline {
+  root: { children: { title: string; options: { pageNumber: number } }[] };
+}
+
+/** Zielseiten der Links auf Seite `page` (Inhaltsverzeichnis) */
+function linkTargets(pdf: jsPDF, page: number) {
+  const { annotations } = (pdf.internal as unknown as PdfInternals).getPageInfo(page).pageContext;
+  return annotations.filter((a) => a.type === "link").map((a) => a.options.pageNumber);
+}
+
+/** Lesezeichen als [Titel, Seite] */
+function bookmarks(pdf: jsPDF) {
+  return (pdf.outline as unknown as PdfOutline).root.children.map((c): [string, number] => [c.title, c.options.pageNumber]);
+}
+
+describe("renderProcessPdf – Seitenumbruch", () => {
+  it("setzt kurze Schritte fortlaufend auf eine Seite", async () => {
+    const pdf = await renderProcessPdf(process([step(1), step(2), step(3)]), noImages, fonts);
+    expect(pdf.getNumberOfPages()).toBe(1);
+    expect(bookmarks(pdf).map(([, p]) => p)).toEqual([1, 1, 1]);
+  });
+
+  it("beginnt bei „Ein Schritt pro Seite“ jeden Schritt auf einer neuen Seite", async () => {
+    const pdf = await renderProcessPdf(process([step(1), step(2), step(3)], { template: "stepPerPage" }), noImages, fonts);
+    expect(pdf.getNumberOfPages()).toBe(3);
+    expect(bookmarks(pdf)).toEqual([
+      ["Schritt 1 – Titel 1", 1],
+      ["Schritt 2 – Titel 2", 2],
+      ["Schritt 3 – Titel 3", 3],
+    ]);
+  });
+
+  it("lässt lange Schritte über mehrere Seiten laufen", async () => {
+    const pdf = await renderProcessPdf(process([step(1, 80), step(2)]), noImages, fonts);
+    expect(pdf.getNumberOfPages()).toBeGreaterThan(1);
+    const [[, first], [, second]] = bookmarks(pdf);
+    expect(first).toBe(1);
+    expect(second).toBe(pdf.getNumberOfPages());
+  });
+
+  it("überspringt leere Schritte", async () => {
+    const empty: StepData = { id: "leer", index: 2, photos: [], texts: [] };
+    const pdf = await renderProcessPdf(process([step(1), empty, step(3)], { template: "stepPerPage" }), noImages, fonts);
+    expect(pdf.getNumberOfPages()).toBe(2);
+  });
+});
+
+describe("renderProcessPdf – Inhaltsverzeichnis", () => {
+  it("verlinkt nach Deckblatt und Verzeichnis auf die Seiten der Schritte", async () => {
+    const pdf = await renderProcessPdf(process([step(1), step(2), step(3)], { template: "stepPerPage", coverPage: true, toc: true }), noImages, fonts);
+    expect(pdf.getNumberOfPages()).toBe(5);
+    expect(linkTargets(pdf, 1)).toEqual([]);
+    expect(linkTargets(pdf, 2)).toEqual([3, 4, 5]);
+    expect(bookmarks(pdf)[0]).toEqual(["Inhalt", 2]);
+  });
+
+  it("verteilt lange Verzeichnisse auf mehrere Seiten", async () => {
+    const steps = Array.from({ length: 60 }, (_, i) => step(i + 1));
+    const pdf = await renderProcessPdf(process(steps, { template: "stepPerPage", toc: true }), noImages, fonts);
+    // DIN A4: 44 Einträge je Verzeichnisseite (über dem QR-Code der Fußzeile) → 2 Seiten Verzeichnis, dann 60 Schritte
+    expect(pdf.getNumberOfPages()).toBe(62);
+    const targets = [...linkTargets(pdf, 1), ...linkTargets(pdf, 2)];
+    expect(linkTargets(pdf, 1)).toHaveLength(44);
+    expect(targets).toEqual(steps.map((_, i) => i + 3));
+  });
+});
@@ -0,0 +1,640 @@
+import jsPDF, { GState } from "jspdf";
+import {
+  Annotation,
+  ProcessData,
+  RESOURCE_KINDS,
+  Resource,
+  ResourceKind,
+  Severity,
+  StepData,
+  VersionSnapshot,
+  aggregateResources,
+  approvalOf,
+  formatDuration,
+  localizeProcess,
+  markersForText,
+  missingTranslations,
+  normalizeLayout,
+  processLanguages,
+  severityInfo,
+  totalDuration,
+} from "./model";
+import { formatDate, formatDateTime } from "./i18n";
+import { drawQrCode, qrPayload } from "./qr";
+
+/** ------------------------
+ *  PDF-Export: Layout-Vorlagen, Deckblatt, Inhaltsverzeichnis
+ *  ------------------------ */
+
+/** Für jsPDF vorbereitetes Foto; Markierungen eingebrannt (Browser) oder als `annotations` zum Überzeichnen (Node) */
+export interface PdfImage {
+  data: string;
+  format: string;   // "JPEG" | "PNG" | "WEBP"
+  width: number;
+  height: number;
+  annotations?: Annotation[];
+}
+
+/** TrueType-Schriften als Base64 (normal + fett); werden vollständig ins PDF eingebettet */
+export interface PdfFonts {
+  regular: string;
+  bold: string;
+}
+
+/** Liefert das fertige Bild zu Foto `photoIndex` eines Schritts; null = überspringen */
+export type ImageResolver = (step: StepData, photoIndex: number) => Promise<PdfImage | null>;
+
+/** Optionen je Export: Sprache des PDFs, optional zweite Sprache nebeneinander */
+export interface PdfOptions {
+  lang?: string;        // fehlt → Hauptsprache
+  secondLang?: string;
+  released?: VersionSnapshot; // freigegebene Version → Deckblatt mit Freigabeblock; fehlt → Wasserzeichen „Entwurf“
+  qrBaseUrl?: string;   // Link im QR-Code; fehlt → Code nur mit Prozess-ID und Version
+}
+
+/** Feste Beschriftungen im PDF (und in HTML/Markdown) je Dokumentsprache; unbekannte Sprachen → Englisch */
+export interface PdfLabels {
+  step: string;
+  photo: string;
+  created: string;
+  version: string;
+  totalDuration: string;
+  duration: string;
+  contents: string;
+  asOf: string;
+  author: string;
+  change: string;
+  steps: string;
+  draft: string;
+  approval: string[];
+  approvalRows: string[];
+  page: (p: number, n: number) => string;
+  severity: Record<Severity, string>;
+  resources: Record<ResourceKind, string>;
+}
+
+const PDF_LABELS: Record<string, PdfLabels> = {
+  de: {
+    step: "Schritt",
+    photo: "Foto",
+    created: "Erstellt am",
+    version: "Version",
+    totalDuration: "Gesamtdauer: ca.",
+    duration: "Dauer",
+    contents: "Inhalt",
+    asOf: "Stand vom",
+    author: "Autor",
+    change: "Änderung",
+    steps: "Schritte",
+    draft: "ENTWURF",
+    approval: ["Erstellt", "Geprüft", "Freigegeben"],
+    approvalRows: ["Name", "Datum", "Unterschrift"],
+    page: (p, n) => `Seite ${p} von ${n}`,
+    severity: { none: "", hint: "Hinweis", caution: "Vorsicht", danger: "Gefahr" },
+    resources: { tool: "Werkzeug", material: "Material", ppe: "PSA" },
+  },
+  en: {
+    step: "Step",
+    photo: "Photo",
+    created: "Created",
+    version: "Version",
+    totalDuration: "Total duration: approx.",
+    duration: "Duration",
+    contents: "Contents",
+    asOf: "As of",
+    author: "Author",
+    change: "Change",
+    steps: "Steps",
+    draft: "DRAFT",
+    approval: ["Prepared", "Checked", "Approved"],
+    approvalRows: ["Name", "Date", "Signature"],
+    page: (p, n) => `Page ${p} of ${n}`,
+    severity: { none: "", hint: "Note", caution: "Caution", danger: "Danger" },
+    resources: { tool: "Tool", material: "Material", ppe: "PPE" },
+  },
+  pl: {
+    step: "Krok",
+    photo: "Zdjęcie",
+    created: "Utworzono",
+    version: "Wersja",
+    totalDuration: "Łączny czas: ok.",
+    duration: "Czas",
+    contents: "Spis treści",
+    asOf: "Stan z dnia",
+    author: "Autor",
+    change: "Zmiana",
+    steps: "Kroki",
+    draft: "PROJEKT",
+    approval: ["Sporządził", "Sprawdził", "Zatwierdził"],
+    approvalRows: ["Imię i nazwisko", "Data", "Podpis"],
+    page: (p, n) => `Strona ${p} z ${n}`,
+    severity: { none: "", hint: "Wskazówka", caution: "Ostrożnie", danger: "Niebezpieczeństwo" },
+    resources: { tool: "Narzędzie", material: "Materiał", ppe: "ŚOI" },
+  },
+};
+
+export function pdfLabels(lang: string) {
+  return PDF_LABELS[lang] || PDF_LABELS.en;
+}
+
+/** Tatsächliches Bildformat einer DataURL für jsPDF.addImage; null, wenn jsPDF es nicht kennt */
+export function pdfImageFormat(dataUrl: string) {
+  const m = dataUrl.match(/^data:image\/([a-z+]+)[;,]/i);
+  const type = m ? m[1].toLowerCase() : "";
+  if (type === "jpeg" || type === "jpg") return "JPEG";
+  if (type === "png") return "PNG";
+  if (type === "webp") return "WEBP";
+  return null;
+}
+
+/** Ein PDF je Sprache oder Haupt- und Zweitsprache nebeneinander, je nach Layout */
+export function pdfRuns(process: ProcessData, released?: VersionSnapshot): PdfOptions[] {
+  const layout = normalizeLayout(process.layout);
+  const [primary, ...others] = processLanguages(process);
+  if (others.length === 0) return [{ released }];
+  if (layout.languageMode === "bilingual") {
+    return [{ lang: primary, secondLang: others.includes(layout.secondLanguage || "") ? layout.secondLanguage : others[0], released }];
+  }
+  return [primary, ...others].map((lang) => ({ lang, released }));
+}
+
+/** Fehlende Übersetzungen in den Sprachen, die tatsächlich exportiert werden */
+export function missingForRuns(process: ProcessData, runs: PdfOptions[]) {
+  const exported = runs.flatMap((r) => [r.lang, r.secondLang]);
+  return missingTranslations(process).filter((m) => exported.includes(m.lang));
+}
+
+export const FONT = "DejaVuSans";
+
+/** Eingebettete Unicode-Schrift statt Helvetica (WinAnsi): Polnisch, Tschechisch, Türkisch, „…“, ≥, → usw. */
+export function embedFonts(pdf: jsPDF, fonts: PdfFonts) {
+  pdf.addFileToVFS(`${FONT}.ttf`, fonts.regular);
+  pdf.addFileToVFS(`${FONT}-Bold.ttf`, fonts.bold);
+  pdf.addFont(`${FONT}.ttf`, FONT, "normal");
+  pdf.addFont(`${FONT}-Bold.ttf`, FONT, "bold");
+  pdf.setFont(FONT, "normal");
+}
+
+/** Markierungen als Vektorgrafik über ein Foto legen – entspricht drawAnnotations im Canvas */
+function drawPdfAnnotations(pdf: jsPDF, annotations: Annotation[], x: number, y: number, w: number, h: number) {
+  const unit = Math.max(w, h) / 200;
+  const lineWidth = pdf.getLineWidth();
+  pdf.setLineWidth(unit * 1.2);
+  pdf.setLineCap("round");
+  pdf.setLineJoin("round");
+  for (const a of annotations) {
+    const x1 = x + a.x1 * w;
+    const y1 = y + a.y1 * h;
+    const x2 = x + a.x2 * w;
+    const y2 = y + a.y2 * h;
+    const white = a.color.toLowerCase() === "#ffffff";
+    pdf.setDrawColor(a.color);
+    pdf.setFillColor(a.color);
+    if (a.kind === "arrow") {
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = unit * 6;
+      pdf.line(x1, y1, x2, y2);
+      pdf.triangle(
+        x2,
+        y2,
+        x2 - head * Math.cos(angle - Math.PI / 7),
+        y2 - head * Math.sin(angle - Math.PI / 7),
+        x2 - head * Math.cos(angle + Math.PI / 7),
+        y2 - head * Math.sin(angle + Math.PI / 7),
+        "F"
+      );
+    } else if (a.kind === "rect") {
+      pdf.rect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1), "S");
+    } else if (a.kind === "circle") {
+      pdf.ellipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2, "S");
+    } else if (a.kind === "marker") {
+      const r = unit * 5;
+      pdf.circle(x1, y1, r, "F");
+      pdf.setFont(FONT, "bold");
+      pdf.setFontSize(r * 1.2);
+      pdf.setTextColor(white ? "#111827" : "#ffffff");
+      pdf.text(a.text || "", x1, y1, { align: "center", baseline: "middle" });
+    } else if (a.kind === "label" && a.text) {
+      const size = unit * 6;
+      pdf.setFont(FONT, "bold");
+      pdf.setFontSize(size);
+      const pad = size * 0.3;
+      pdf.setGState(new GState({ opacity: 0.85 }));
+      pdf.setFillColor(255, 255, 255);
+      pdf.rect(x1 - pad, y1 - size / 2 - pad, pdf.getTextWidth(a.text) + pad * 2, size + pad * 2, "F");
+      pdf.setGState(new GState({ opacity: 1 }));
+      pdf.setTextColor(white ? "#111827" : a.color);
+      pdf.text(a.text, x1, y1, { baseline: "middle" });
+    }
+  }
+  pdf.setLineWidth(lineWidth);
+  pdf.setLineCap("butt");
+  pdf.setLineJoin("miter");
+  pdf.setTextColor(0, 0, 0);
+}
+
+// DIN A6 ungefähr in pt (Portrait) – Obergrenze für Fotos im fortlaufenden Layout
+const A6W = 297.64;
+const A6H = 420.94;
+
+interface Cursor {
+  page: number;
+  y: number;
+}
+
+/** Dateiname; bei mehrsprachigen Prozessen mit Sprachkürzel(n) */
+export function pdfFileName(process: ProcessData, options: PdfOptions = {}) {
+  const langs = [options.lang, options.secondLang].filter(Boolean).join("-");
+  return `${process.name.replace(/\s+/g, "_")}${langs ? `_${langs}` : ""}_Prozess${options.released ? "" : "_Entwurf"}.pdf`;
+}
+
+export async function renderProcessPdf(process: ProcessData, resolveImage: ImageResolver, fonts: PdfFonts, options: PdfOptions = {}) {
+  // Freigegebene PDFs tragen immer das Deckblatt mit ausgefülltem Freigabeblock
+  const layout = { ...normalizeLayout(process.layout), ...(options.released ? { coverPage: true } : {}) };
+  const lang = options.lang || processLanguages(process)[0];
+  const L = pdfLabels(lang);
+  const doc = localizeProcess(process, lang);
+  // Zweisprachig: zweite Spalte aus derselben Struktur, Schritte per ID zugeordnet
+  const second = options.secondLang && options.secondLang !== lang ? localizeProcess(process, options.secondLang) : null;
+  const L2 = second ? pdfLabels(options.secondLang!) : null;
+  const pdf = new jsPDF({ orientation: layout.orientation, unit: "pt", format: layout.format });
+  embedFonts(pdf, fonts);
+  const docTitle = second && second.name !== doc.name ? `${doc.name} / ${second.name}` : doc.name;
+  pdf.setDocumentProperties({ title: docTitle });
+  const pageW = pdf.internal.pageSize.getWidth();
+  const pageH = pdf.internal.pageSize.getHeight();
+  const margin = layout.format === "a5" ? 28 : 36;
+  const contentW = pageW - margin * 2;
+  const top = margin;
+  // Kleiner QR-Code rechts in der Fußzeile jeder Seite; der Inhalt endet darüber
+  const footerQr = layout.format === "a5" ? 32 : 40;
+  const footerQrY = pageH - 12 - footerQr;
+  const bottom = Math.min(pageH - margin, footerQrY - 6);
+  const steps = doc.steps.filter((s) => s.photos.length > 0 || s.texts.length > 0);
+  const date = (iso: string) => formatDateTime(iso, lang);
+  const created = date(process.createdAt);
+  // QR-Code auf der ersten Seite und in jeder Fußzeile: führt vom Ausdruck zur aktuellen Fassung
+  const qrText = qrPayload({ id: process.id, version: process.version }, options.qrBaseUrl);
+
+  function otherStep(step: StepData) {
+    return second?.steps.find((s) => s.id === step.id);
+  }
+  function heading(step: StepData) {
+    const t2 = otherStep(step)?.title;
+    const title = t2 && t2 !== step.title ? `${step.title} / ${t2}` : step.title;
+    return title ? `${L.step} ${step.index} – ${title}` : `${L.step} ${step.index}`;
+  }
+  function resource(r: Resource) {
+    return `${L.resources[r.kind]}: ${r.name}`;
+  }
+
+  function font(style: "normal" | "bold", size: number) {
+    pdf.setFont(FONT, style);
+    pdf.setFontSize(size);
+  }
+  function gotoPage(n: number) {
+    while (pdf.getNumberOfPages() < n) pdf.addPage();
+    pdf.setPage(n);
+  }
+  /** Platz sichern; Blöcke, die größer als eine Seite sind, beginnen trotzdem oben */
+  function ensure(c: Cursor, needed: number) {
+    if (c.y + needed > bottom && c.y > top) {
+      c.page++;
+      c.y = top;
+    }
+    gotoPage(c.page);
+  }
+  function later(a: Cursor, b: Cursor): Cursor {
+    if (a.page !== b.page) return a.page > b.page ? { ...a } : { ...b };
+    return { page: a.page, y: Math.max(a.y, b.y) };
+  }
+  function scale(img: PdfImage, maxW: number, maxH: number) {
+    const s = Math.min(maxW / img.width, maxH / img.height, 1);
+    return { w: img.width * s, h: img.height * s };
+  }
+
+  /** Kopf mit Titel, Datum, Version, Gesamtdauer und Hilfsmitteln (ohne Deckblatt); QR-Code rechts */
+  function drawHeader(c: Cursor) {
+    gotoPage(c.page);
+    const qrSize = 64;
+    const qrTop = c.y - 12;
+    drawQrCode(pdf, qrText, pageW - margin - qrSize, qrTop, qrSize);
+    const textW = contentW - qrSize - 12;
+    font("bold", 16);
+    const title: string[] = pdf.splitTextToSize(docTitle, textW);
+    pdf.text(title, margin, c.y);
+    c.y += 18 * title.length;
+
+    font("normal", 10);
+    pdf.text(`${L.created}: ${created}   |   ${L.version}: ${process.version}`, margin, c.y);
+    c.y += 14;
+    drawSummary(c, textW);
+    c.y = Math.max(c.y, qrTop + qrSize + 6);
+
+    pdf.setDrawColor(200);
+    pdf.line(margin, c.y, pageW - margin, c.y);
+    c.y += 10;
+  }
+
+  /** Gesamtdauer und benötigte Hilfsmittel */
+  function drawSummary(c: Cursor, width: number) {
+    const total = totalDuration(process.steps);
+    if (total > 0) {
+      pdf.text(`${L.totalDuration} ${formatDuration(total)}`, margin, c.y);
+      c.y += 14;
+    }
+    const resources = aggregateResources(process.steps);
+    for (const kind of RESOURCE_KINDS) {
+      const names = resources.filter((r) => r.kind === kind).map((r) => r.name);
+      if (names.length === 0) continue;
+      const lines = pdf.splitTextToSize(`${L.resources[kind]}: ${names.join(", ")}`, width);
+      pdf.text(lines, margin, c.y);
+      c.y += lines.length * 12 + 2;
+    }
+  }
+
+  /** Diagonales „ENTWURF“ über die ganze Seite, halbtransparent */
+  function drawWatermark() {
+    const diagonal = Math.hypot(pageW, pageH);
+    font("bold", 100);
+    const size = Math.min(100, (100 * diagonal * 0.6) / pdf.getTextWidth(L.draft));
+    font("bold", size);
+    const w = pdf.getTextWidth(L.draft);
+    const angle = Math.atan2(pageH, pageW);
+    pdf.setGState(new GState({ opacity: 0.12 }));
+    pdf.setTextColor(200, 0, 0);
+    // Textmitte auf die Seitenmitte legen (jsPDF dreht um den Startpunkt)
+    const x = pageW / 2 - (w / 2) * Math.cos(angle) + (size / 3) * Math.sin(angle);
+    const y = pageH / 2 + (w / 2) * Math.sin(angle) + (size / 3) * Math.cos(angle);
+    pdf.text(L.draft, x, y, { angle: (angle * 180) / Math.PI });
+    pdf.setGState(new GState({ opacity: 1 }));
+  }
+
+  function drawCover() {
+    gotoPage(1);
+    let y = top;
+    if (layout.logo) {
+      try {
+        const p = pdf.getImageProperties(layout.logo);
+        const d = scale({ data: layout.logo, format: p.fileType, width: p.width, height: p.height }, 160, 60);
+        pdf.addImage(layout.logo, p.fileType, margin, y, d.w, d.h);
+        y += d.h + 12;
+      } catch {
+        // Logo nicht lesbar → ohne Logo weiter
+      }
+    }
+    let qrTop = top;
+    if (layout.company) {
+      font("bold", 12);
+      pdf.text(layout.company, pageW - margin, top + 12, { align: "right" });
+      qrTop += 24;
+    }
+    const qrSize = layout.format === "a5" ? 64 : 80;
+    drawQrCode(pdf, qrText, pageW - margin - qrSize, qrTop, qrSize);
+    y = Math.max(y, qrTop + qrSize + 12);
+
+    y = Math.max(y, pageH * 0.25);
+    font("bold", 24);
+    const title: string[] = pdf.splitTextToSize(docTitle, contentW);
+    pdf.text(title, margin, y);
+    y += 28 * title.length + 10;
+
+    const last = options.released || (process.history || [])[(process.history || []).length - 1];
+    const rows: [string, string][] = [
+      [L.version, process.version],
+      [L.created, created],
+      ...(last ? ([[L.asOf, date(last.createdAt)]] as [string, string][]) : []),
+      ...(last?.author ? ([[L.author, last.author]] as [string, string][]) : []),
+      ...(last?.note ? ([[L.change, last.note]] as [string, string][]) : []),
+      [L.steps, String(steps.length)],
+    ];
+    for (const [k, v] of rows) {
+      font("bold", 11);
+      pdf.text(k, margin, y);
+      font("normal", 11);
+      const lines: string[] = pdf.splitTextToSize(v, contentW - 110);
+      pdf.text(lines, margin + 110, y);
+      y += 16 * lines.length;
+    }
+    y += 6;
+    font("normal", 10);
+    const c = { page: 1, y };
+    drawSummary(c, contentW);
+
+    drawApprovalBlock();
+  }
+
+  /** Freigabeblock (Erstellt / Geprüft / Freigegeben) am unteren Rand des Deckblatts;
+   *  bei freigegebenen Versionen mit Namen, Datum und Unterschrift ausgefüllt */
+  function drawApprovalBlock() {
+    const released = options.released;
+    const approval = released && approvalOf(released);
+    const signatures = released && approval ? [{ name: released.author, date: released.createdAt, image: undefined }, approval.reviewed, approval.approved] : [];
+    const cols = L.approval;
+    const rowLabels = L.approvalRows;
+    const colW = contentW / cols.length;
+    const rowH = 26;
+    const h = rowH * (rowLabels.length + 1);
+    const y0 = bottom - 24 - h;
+    pdf.setDrawColor(150);
+    pdf.rect(margin, y0, contentW, h);
+    for (let i = 0; i < cols.length; i++) {
+      const x = margin + i * colW;
+      if (i > 0) pdf.line(x, y0, x, y0 + h);
+      font("bold", 10);
+      pdf.text(cols[i], x + 6, y0 + 17);
+      font("normal", 8);
+      for (let r = 0; r < rowLabels.length; r++) {
+        pdf.text(rowLabels[r], x + 6, y0 + rowH * (r + 1) + 10);
+      }
+      const sig = signatures[i];
+      if (!sig) continue;
+      const valueX = x + 64;
+      const valueW = colW - 70;
+      font("normal", 9);
+      if (sig.name) pdf.text(pdf.splitTextToSize(sig.name, valueW)[0], valueX, y0 + rowH + 16);
+      pdf.text(formatDate(sig.date, lang), valueX, y0 + rowH * 2 + 16);
+      if (sig.image) {
+        try {
+          const p = pdf.getImageProperties(sig.image);
+          const d = scale({ data: sig.image, format: p.fileType, width: p.width, height: p.height }, valueW, rowH - 4);
+          pdf.addImage(sig.image, p.fileType, valueX, y0 + rowH * 3 + 2, d.w, d.h);
+        } catch {
+          // Unterschrift nicht lesbar → Name und Datum genügen
+        }
+      }
+    }
+    for (let r = 1; r <= rowLabels.length; r++) pdf.line(margin, y0 + rowH * r, margin + contentW, y0 + rowH * r);
+  }
+
+  async function drawPhotos(step: StepData, c: Cursor, x: number, width: number, cols: number) {
+    const gap = 8;
+    const cellW = (width - gap * (cols - 1)) / cols;
+    const maxW = cols === 1 ? Math.min(A6W, cellW) : cellW;
+    const maxH = Math.min(cols === 1 ? A6H : Infinity, bottom - top - 24);
+    for (let i = 0; i < step.photos.length; i += cols) {
+      const row: (PdfImage | null)[] = [];
+      for (let k = i; k < Math.min(i + cols, step.photos.length); k++) row.push(await resolveImage(step, k));
+      const dims = row.map((img) => (img ? scale(img, maxW, maxH) : null));
+      const rowH = Math.max(0, ...dims.map((d) => (d ? d.h : 0)));
+      if (rowH === 0) continue; // Bilder konnten nicht geladen werden -> überspringen
+      ensure(c, rowH); // nie splitten
+      row.forEach((img, k) => {
+        const d = dims[k];
+        if (!img || !d) return;
+        pdf.addImage(img.data, img.format, x + k * (cellW + gap), c.y, d.w, d.h, undefined, "FAST");
+        if (img.annotations?.length) drawPdfAnnotations(pdf, img.annotations, x + k * (cellW + gap), c.y, d.w, d.h);
+      });
+      c.y += rowH + 12; // mehr Platz unter dem Bild
+    }
+  }
+
+  /** Texte (1.1, 1.2, …) – Hinweis/Vorsicht/Gefahr farbig + fett mit Signalwort;
+   *  zweisprachig als zwei Spalten mit gemeinsamer Zeilenführung */
+  function drawTexts(step: StepData, c: Cursor, x: number, width: number) {
+    const other = otherStep(step);
+    const gap = 12;
+    const colW = other ? (width - gap) / 2 : width;
+    for (let i = 0; i < step.texts.length; i++) {
+      const t = step.texts[i];
+      const sev = severityInfo(t.severity);
+      const markers = markersForText(step, t.id);
+      const label = `${step.index}.${i + 1} ${markers.length ? `[${markers.join(", ")}] ` : ""}`;
+      const signal = (labels: PdfLabels) => (t.severity !== "none" ? `${labels.severity[t.severity].toUpperCase()}: ` : "");
+
+      font(t.severity !== "none" ? "bold" : "normal", 11);
+      const columns: string[][] = [pdf.splitTextToSize(label + signal(L) + t.content, colW)];
+      if (other && L2) columns.push(pdf.splitTextToSize(label + signal(L2) + (other.texts[i]?.content ?? t.content), colW));
+      const rows = Math.max(...columns.map((lines) => lines.length));
+      // Platz für alle Zeilen + kleinen Abstand
+      ensure(c, rows * 14 + 6);
+      pdf.setTextColor(...sev.rgb);
+      for (let li = 0; li < rows; li++) {
+        ensure(c, 14);
+        // Gefahr zusätzlich mit Balken am Rand
+        if (t.severity === "danger") {
+          pdf.setFillColor(...sev.rgb);
+          pdf.rect(x - 8, c.y - 10, 3, 14, "F");
+        }
+        columns.forEach((lines, k) => {
+          if (lines[li]) pdf.text(lines[li], x + k * (colW + gap), c.y);
+        });
+        c.y += 14;
+      }
+      c.y += 6;
+    }
+    pdf.setTextColor(0, 0, 0);
+  }
+
+  // Deckblatt und reservierte Seiten für das Inhaltsverzeichnis
+  let page = 1;
+  if (layout.coverPage) {
+    drawCover();
+    page++;
+  }
+  const tocLine = 16;
+  const tocPerPage = Math.max(Math.floor((bottom - top - 30) / tocLine), 1);
+  const tocStart = page;
+  const tocPages = layout.toc && steps.length > 0 ? Math.ceil(steps.length / tocPerPage) : 0;
+  page += tocPages;
+
+  let main: Cursor = { page, y: top };
+  gotoPage(page);
+  if (!layout.coverPage) drawHeader(main);
+
+  // Schritte
+  const stepPages: { step: StepData; page: number }[] = [];
+  for (const step of steps) {
+    // Ein Schritt pro Seite: der erste Schritt darf noch unter den Kopf
+    if (layout.template === "stepPerPage" && stepPages.length > 0 && main.y > top) {
+      main = { page: main.page + 1, y: top };
+    }
+
+    const details = [
+      step.durationMin ? `${L.duration}: ${formatDuration(step.durationMin)}` : "",
+      (step.resources || []).map(resource).join(", "),
+    ].filter(Boolean);
+    font("normal", 10);
+    const detailLines: string[] = details.length ? pdf.splitTextToSize(details.join("   |   "), contentW) : [];
+    font("bold", 13);
+    const headingLines: string[] = pdf.splitTextToSize(heading(step), contentW);
+
+    // Reserve für Überschrift + (falls vorhanden) erstes Bild
+    let reserve = 20 + (headingLines.length - 1) * 15 + detailLines.length * 12;
+    const first = step.photos.length > 0 ? await resolveImage(step, 0) : null;
+    if (first) reserve += scale(first, layout.template === "twoColumn" ? contentW * 0.27 : Math.min(A6W, contentW), A6H).h + 12;
+    else reserve += step.photos.length > 0 ? 120 : 40;
+    ensure(main, Math.min(reserve, bottom - top));
+    stepPages.push({ step, page: main.page });
+
+    // Überschrift
+    pdf.setTextColor(0, 0, 0);
+    font("bold", 13);
+    pdf.text(headingLines, margin, main.y);
+    main.y += 20 + (headingLines.length - 1) * 15;
+    if (detailLines.length) {
+      font("normal", 10);
+      pdf.setTextColor(90, 90, 90);
+      pdf.text(detailLines, margin, main.y - 4);
+      main.y += detailLines.length * 12;
+      pdf.setTextColor(0, 0, 0);
+    }
+
+    if (layout.template === "twoColumn") {
+      // Fotoraster links, Texte rechts – beide Spalten laufen unabhängig über Seiten
+      const leftW = contentW * 0.55;
+      const gap = 16;
+      const left = { ...main };
+      const right = { ...main };
+      await drawPhotos(step, left, margin, leftW, 2);
+      drawTexts(step, right, margin + leftW + gap, contentW - leftW - gap);
+      main = later(left, right);
+    } else {
+      await drawPhotos(step, main, margin, contentW, 1);
+      drawTexts(step, main, margin, contentW);
+    }
+
+    main.y += 6; // kleiner Abstand am Schrittende
+  }
+
+  // Inhaltsverzeichnis mit Links und PDF-Lesezeichen
+  if (tocPages > 0) {
+    pdf.outline.add(null, L.contents, { pageNumber: tocStart });
+    for (let i = 0; i < stepPages.length; i++) {
+      const { step, page: target } = stepPages[i];
+      const p = tocStart + Math.floor(i / tocPerPage);
+      gotoPage(p);
+      let y = top + 30 + (i % tocPerPage) * tocLine;
+      if (i % tocPerPage === 0) {
+        font("bold", 16);
+        pdf.text(L.contents, margin, top + 6);
+      }
+      font("normal", 11);
+      const title = pdf.splitTextToSize(heading(step), contentW - 40)[0];
+      pdf.text(title, margin, y);
+      pdf.text(String(target), pageW - margin, y, { align: "right" });
+      pdf.link(margin, y - 11, contentW, tocLine, { pageNumber: target });
+    }
+  }
+  for (const { step, page: target } of stepPages) {
+    pdf.outline.add(null, heading(step), { pageNumber: target });
+  }
+
+  // Fußzeile mit Seitenzahlen, Datum, Version und QR-Code; nicht freigegebene Stände mit Wasserzeichen
+  const pages = pdf.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    pdf.setPage(p);
+    if (!options.released) drawWatermark();
+    pdf.setTextColor(0, 0, 0);
+    font("normal", 9);
+    const left = `${L.created}: ${created}`;
+    const center = `${L.version}: ${process.version}`;
+    const right = L.page(p, pages);
+    pdf.text(left, margin, pageH - 16);
+    pdf.text(center, pageW / 2, pageH - 16, { align: "center" });
+    pdf.text(right, pageW - margin - footerQr - 8, pageH - 16, { align: "right" });
+    drawQrCode(pdf, qrText, pageW - margin - footerQr, footerQrY, footerQr);
+  }
+
+  return pdf;
+}
@@ -0,0 +1,152 @@
+import jsPDF from "jspdf";
+import { languageLabel, severityInfo } from "./model";
+import { ExecutionRecord, executionStatusLabel, executionSummary } from "./execution";
+import { FONT, PdfFonts, embedFonts } from "./pdf";
+import { formatDateTime, t } from "./i18n";
+
+/** ------------------------
+ *  PDF-Protokoll einer Durchführung (Texte und Datumsformat der Oberfläche)
+ *  ------------------------ */
+const GREEN: [number, number, number] = [21, 128, 61];
+const RED: [number, number, number] = [185, 28, 28];
+const GRAY: [number, number, number] = [107, 114, 128];
+
+export function renderExecutionPdf(rec: ExecutionRecord, fonts: PdfFonts) {
+  const pdf = new jsPDF({ unit: "pt", format: "a4" });
+  embedFonts(pdf, fonts);
+  pdf.setDocumentProperties({ title: `${t("protocol.title")} – ${rec.processName}` });
+  const pageW = pdf.internal.pageSize.getWidth();
+  const pageH = pdf.internal.pageSize.getHeight();
+  const margin = 36;
+  const contentW = pageW - margin * 2;
+  const bottom = pageH - margin;
+  const date = (iso?: string) => (iso ? formatDateTime(iso) : "–");
+  const summary = executionSummary(rec);
+  let y = margin;
+
+  function font(style: "normal" | "bold", size: number) {
+    pdf.setFont(FONT, style);
+    pdf.setFontSize(size);
+  }
+  function ensure(needed: number) {
+    if (y + needed > bottom && y > margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  }
+  /** Umbrochener Text ab x; liefert die Zeilenzahl */
+  function lines(text: string, x: number, width: number, lineH: number) {
+    const parts: string[] = pdf.splitTextToSize(text, width);
+    for (const line of parts) {
+      ensure(lineH);
+      pdf.text(line, x, y);
+      y += lineH;
+    }
+    return parts.length;
+  }
+
+  // Kopf mit Prozess, Bediener, Zeitraum und Ergebnis
+  font("bold", 16);
+  lines(t("protocol.title"), margin, contentW, 20);
+  font("bold", 12);
+  lines(`${rec.processName} (v${rec.processVersion})`, margin, contentW, 16);
+  y += 4;
+  font("normal", 10);
+  const rows: [string, string][] = [
+    [t("protocol.operator"), rec.operator || "–"],
+    [t("common.language"), languageLabel(rec.lang)],
+    [t("protocol.started"), date(rec.startedAt)],
+    [t("protocol.finished"), date(rec.finishedAt)],
+    [t("protocol.status"), executionStatusLabel(rec.status)],
+    [t("protocol.done"), t("protocol.doneOf", { done: summary.done, total: summary.total })],
+    [t("protocol.deviations"), String(summary.deviations)],
+  ];
+  for (const [k, v] of rows) {
+    pdf.setTextColor(...GRAY);
+    pdf.text(k, margin, y);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(v, margin + 90, y);
+    y += 14;
+  }
+  pdf.setDrawColor(200);
+  pdf.line(margin, y, pageW - margin, y);
+  y += 16;
+
+  for (const step of rec.steps) {
+    ensure(40);
+    font("bold", 12);
+    lines(step.heading, margin, contentW - 120, 16);
+    if (step.completedAt) {
+      font("normal", 9);
+      pdf.setTextColor(...GRAY);
+      pdf.text(date(step.completedAt), pageW - margin, y - 16, { align: "right" });
+      pdf.setTextColor(0, 0, 0);
+    }
+    y += 2;
+
+    for (const item of step.items) {
+      const sev = severityInfo(item.severity);
+      font(item.severity !== "none" ? "bold" : "normal", 10);
+      ensure(16);
+      // Kästchen: grün abgehakt oder leer
+      pdf.setDrawColor(...(item.done ? GREEN : GRAY));
+      pdf.rect(margin, y - 8, 9, 9);
+      if (item.done) {
+        pdf.setDrawColor(...GREEN);
+        pdf.setLineWidth(1.5);
+        pdf.line(margin + 2, y - 3.5, margin + 4, y - 1);
+        pdf.line(margin + 4, y - 1, margin + 8, y - 7);
+        pdf.setLineWidth(1);
+      }
+      pdf.setTextColor(...sev.rgb);
+      lines(`${item.label} ${item.content}`, margin + 16, contentW - 16, 13);
+      if (item.deviation) {
+        font("bold", 10);
+        pdf.setTextColor(...RED);
+        lines(`${t("protocol.deviation")}: ${item.deviation}`, margin + 16, contentW - 16, 13);
+      }
+      pdf.setTextColor(0, 0, 0);
+      y += 3;
+    }
+
+    if (step.comment) {
+      font("normal", 10);
+      pdf.setTextColor(...GRAY);
+      lines(`${t("protocol.comment")}: ${step.comment}`, margin + 16, contentW - 16, 13);
+      pdf.setTextColor(0, 0, 0);
+    }
+    if (step.proofPhoto) {
+      const props = pdf.getImageProperties(step.proofPhoto);
+      const s = Math.min((contentW - 16) / 2 / props.width, 200 / props.height, 1);
+      const w = props.width * s;
+      const h = props.height * s;
+      ensure(h + 20);
+      font("normal", 9);
+      pdf.setTextColor(...GRAY);
+      pdf.text(t("protocol.proofPhoto"), margin + 16, y);
+      pdf.setTextColor(0, 0, 0);
+      y += 4;
+      pdf.addImage(step.proofPhoto, props.fileType, margin + 16, y, w, h);
+      y += h + 6;
+    }
+    y += 10;
+  }
+
+  // Unterschrift des Bedieners
+  ensure(60);
+  y += 20;
+  pdf.setDrawColor(0);
+  pdf.line(margin, y, margin + 200, y);
+  font("normal", 9);
+  pdf.text(`${t("protocol.signature")} ${rec.operator}`.trim(), margin, y + 12);
+
+  const pages = pdf.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    pdf.setPage(p);
+    pdf.setTextColor(0, 0, 0);
+    font("normal", 9);
+    pdf.text(`${rec.processName} v${rec.processVersion}`, margin, pageH - 16);
+    pdf.text(t("protocol.page", { page: p, pages }), pageW - margin, pageH - 16, { align: "right" });
+  }
+  return pdf;
+}
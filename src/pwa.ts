@@ -0,0 +1,94 @@
+/** ------------------------
+ *  PWA: Service-Worker-Registrierung, Update- und Installationshinweis
+ *  ------------------------ */
+/** Nicht in lib.dom enthalten (Chromium-spezifisch) */
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+export interface PwaState {
+  updateReady: boolean;  // neue Version installiert und wartet
+  installable: boolean;  // Browser bietet Installation an
+}
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000; // Tablets an der Linie bleiben oft tagelang offen
+
+let waiting: ServiceWorkerRegistration | null = null;
+let installEvent: BeforeInstallPromptEvent | null = null;
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((l) => l());
+}
+
+export function pwaState(): PwaState {
+  return { updateReady: !!waiting, installable: !!installEvent };
+}
+
+/** Änderungen beobachten; liefert die Abmeldefunktion */
+export function subscribePwa(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Vor dem ersten Rendern aufrufen, damit kein Ereignis verloren geht; im Entwicklungsserver ohne Service Worker */
+export function registerServiceWorker() {
+  window.addEventListener("beforeinstallprompt", (e) => {
+    e.preventDefault();
+    installEvent = e as BeforeInstallPromptEvent;
+    emit();
+  });
+  window.addEventListener("appinstalled", () => {
+    installEvent = null;
+    emit();
+  });
+
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+  // Service Worker funktioniert nur unter derselben Origin wie PUBLIC_URL
+  if (new URL(process.env.PUBLIC_URL, window.location.href).origin !== window.location.origin) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .then((reg) => {
+        const found = () => {
+          waiting = reg;
+          emit();
+        };
+        // beim ersten Installieren gibt es keinen Controller – dann ist es kein Update
+        if (reg.waiting && navigator.serviceWorker.controller) found();
+        reg.addEventListener("updatefound", () => {
+          const worker = reg.installing;
+          worker?.addEventListener("statechange", () => {
+            if (worker.state === "installed" && navigator.serviceWorker.controller) found();
+          });
+        });
+        setInterval(() => reg.update().catch(() => undefined), UPDATE_CHECK_INTERVAL);
+      })
+      .catch(() => undefined); // ohne Service Worker läuft die App weiter, nur nicht offline
+  });
+}
+
+/** Wartende Version aktivieren und neu laden; offene Änderungen muss der Aufrufer vorher sichern */
+export function activateUpdate() {
+  const worker = waiting?.waiting;
+  if (!worker) {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+  worker.postMessage({ type: "SKIP_WAITING" });
+}
+
+/** Installationsdialog des Browsers; danach steht das Ereignis nicht mehr zur Verfügung */
+export async function promptInstall() {
+  const e = installEvent;
+  if (!e) return;
+  installEvent = null;
+  emit();
+  await e.prompt();
+  await e.userChoice;
+}
@@ -0,0 +1,102 @@
+import jsPDF from "jspdf";
+import QRCode from "qrcode";
+import { ProcessData, isUuid, parseVersion } from "./model";
+import { approvedVersion } from "./approval";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  QR-Codes: Inhalt, Erkennung gescannter Codes, Abgleich mit der freigegebenen Version
+ *  ------------------------ */
+/** Was ein QR-Code verrät: Prozess-ID, bei PDFs auch die gedruckte Version (Etiketten ohne) */
+export interface QrTarget {
+  id: string;
+  version?: string;
+}
+
+const SCHEME = "prozess-doku:";
+
+/** Fehlermeldung für die Basis-URL oder null; leer = QR-Codes ohne Link */
+export function baseUrlError(v: string) {
+  if (!v.trim()) return null;
+  try {
+    const url = new URL(v.trim());
+    return url.protocol === "https:" || url.protocol === "http:" ? null : t("qr.baseUrlInvalid");
+  } catch {
+    return t("qr.baseUrlInvalid");
+  }
+}
+
+/** Mit Basis-URL ein Link, den auch die Kamera-App eines Telefons öffnet; sonst nur für den Scanner der App */
+export function qrPayload(target: QrTarget, baseUrl?: string) {
+  if (!baseUrl?.trim() || baseUrlError(baseUrl)) {
+    return `${SCHEME}${target.id}${target.version ? `?version=${encodeURIComponent(target.version)}` : ""}`;
+  }
+  const url = new URL(baseUrl.trim());
+  url.searchParams.set("process", target.id);
+  if (target.version) url.searchParams.set("version", target.version);
+  return url.toString();
+}
+
+/** Gescannten oder eingegebenen Text deuten: Link, „prozess-doku:…“ oder nur die UUID; null = kein Prozess-Code */
+export function parseQrPayload(text: string): QrTarget | null {
+  const s = text.trim();
+  let id: string | null = null;
+  let version: string | null = null;
+  if (s.toLowerCase().startsWith(SCHEME)) {
+    const [path, query = ""] = s.slice(SCHEME.length).split("?");
+    id = path;
+    version = new URLSearchParams(query).get("version");
+  } else if (isUuid(s)) {
+    id = s;
+  } else {
+    try {
+      const params = new URL(s).searchParams;
+      id = params.get("process");
+      version = params.get("version");
+    } catch {
+      return null;
+    }
+  }
+  if (!isUuid(id)) return null;
+  return { id: id.toLowerCase(), ...(version ? { version } : {}) };
+}
+
+/** current = gedruckte Version ist die freigegebene (oder Etikett ohne Version);
+ *  outdated = inzwischen ist eine neuere freigegeben; unreleased = Entwurf/nicht freigegebene Version;
+ *  noRelease = es gibt noch gar keine Freigabe */
+export type ScanVerdict = "current" | "outdated" | "unreleased" | "noRelease";
+
+export function scanVerdict(p: Pick<ProcessData, "history">, version?: string): ScanVerdict {
+  const approved = approvedVersion(p);
+  if (!approved) return "noRelease";
+  if (!version || version === approved.version) return "current";
+  const a = parseVersion(version);
+  const b = parseVersion(approved.version);
+  if (!a || !b) return "unreleased";
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const d = (a[i] || 0) - (b[i] || 0);
+    if (d !== 0) return d < 0 ? "outdated" : "unreleased";
+  }
+  return "current";
+}
+
+/** QR-Code als Vektorgrafik (auch in der CLI ohne Canvas); `size` inkl. Ruhezone */
+export function drawQrCode(pdf: jsPDF, text: string, x: number, y: number, size: number) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const quiet = 2;
+  const n = modules.size;
+  const cell = size / (n + quiet * 2);
+  pdf.setFillColor(255, 255, 255);
+  pdf.rect(x, y, size, size, "F");
+  pdf.setFillColor(0, 0, 0);
+  for (let r = 0; r < n; r++) {
+    // zusammenhängende dunkle Module einer Zeile als ein Rechteck
+    for (let c = 0; c < n; c++) {
+      if (!modules.get(r, c)) continue;
+      let end = c;
+      while (end + 1 < n && modules.get(r, end + 1)) end++;
+      pdf.rect(x + (quiet + c) * cell, y + (quiet + r) * cell, (end - c + 1) * cell, cell, "F");
+      c = end;
+    }
+  }
+}
@@ -1 +1,6 @@
 /// <reference types="react-scripts" />
+
+declare module "*.ttf" {
+  const src: string;
+  export default src;
+}
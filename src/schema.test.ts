@@ -0,0 +1,40 @@
+import { SCHEMA_VERSION, importProcess } from "./schema";
+import { isUuid } from "./model";
+
+/** Datei im Format v2: Schritt-IDs noch kurz, ohne Prozess-ID */
+function v2File() {
+  const step = { id: "a1b2c3d4", index: 1, photos: [], texts: [{ id: "t1", content: "Schraube lösen", severity: "none" }] };
+  return {
+    schemaVersion: 2,
+    name: "Montage",
+    version: "1.1",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    steps: [step, { ...step, id: "e5f6g7h8", index: 2 }],
+    history: [{ version: "1.0", createdAt: "2024-01-01T00:00:00.000Z", author: "Anna", note: "", name: "Montage", steps: [step] }],
+  };
+}
+
+describe("importProcess – Migration auf UUIDs", () => {
+  it("vergibt Prozess- und Schritt-UUIDs", () => {
+    const r = importProcess(v2File());
+    expect(r.fromVersion).toBe(2);
+    expect(r.migrations).toHaveLength(SCHEMA_VERSION - 2);
+    const p = r.process!;
+    expect(isUuid(p.id)).toBe(true);
+    expect(p.steps.every((s) => isUuid(s.id))).toBe(true);
+    expect(new Set(p.steps.map((s) => s.id)).size).toBe(2);
+  });
+
+  it("ordnet Schritte im Verlauf dieselbe UUID zu", () => {
+    const p = importProcess(v2File()).process!;
+    expect(p.history![0].steps[0].id).toBe(p.steps[0].id);
+  });
+
+  it("behält vorhandene UUIDs", () => {
+    const file = { ...v2File(), id: "0b8582aa-f029-4fdc-809d-93ddaf4064e9" };
+    file.steps[1].id = "5c1e4f2a-9d3b-4e7a-8f6c-2b1a0d9e8c7f";
+    const p = importProcess(file).process!;
+    expect(p.id).toBe(file.id);
+    expect(p.steps[1].id).toBe(file.steps[1].id);
+  });
+});
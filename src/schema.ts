@@ -0,0 +1,245 @@
+import {
+  ANNOTATION_KINDS,
+  ProcessData,
+  RESOURCE_KINDS,
+  SEVERITIES,
+  isPhotoData,
+  newStep,
+  normalizeApproval,
+  normalizeLayout,
+  normalizeStep,
+  normalizeTranslations,
+  parseVersion,
+  stepIdUpgrade,
+  uid,
+  uuid,
+} from "./model";
+import { MessageKey, t } from "./i18n";
+
+/** ------------------------
+ *  Dateiformat: Schema-Version, Migrationen, Prüfung
+ *  ------------------------ */
+/** Version des Dateiformats; bei jeder inkompatiblen Änderung erhöhen und Migration ergänzen */
+export const SCHEMA_VERSION = 3;
+
+export interface ValidationIssue {
+  level: "error" | "repair"; // error = Import nicht möglich, repair = wird beim Import korrigiert
+  path: string;              // z. B. "Schritt 3 › Text 3.2"
+  message: string;
+}
+
+export interface ImportResult {
+  process: ProcessData | null; // null, sobald ein Fehler vorliegt
+  fromVersion: number;
+  migrations: string[];        // durchlaufene Migrationen, älteste zuerst
+  issues: ValidationIssue[];
+}
+
+interface Migration {
+  from: number;                // hebt Dateien von `from` auf `from + 1`
+  description: MessageKey;
+  migrate: (obj: any) => any;
+}
+
+/** Schrittlisten im Prozess und in allen gespeicherten Versionen umschreiben */
+function mapAllSteps(obj: any, fn: (s: any) => any) {
+  const steps = (list: any) => (Array.isArray(list) ? list.map((s) => (s && typeof s === "object" ? fn(s) : s)) : list);
+  return {
+    ...obj,
+    steps: steps(obj.steps),
+    ...(Array.isArray(obj.history) ? { history: obj.history.map((h: any) => (h && typeof h === "object" ? { ...h, steps: steps(h.steps) } : h)) } : {}),
+  };
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Ursprüngliches Format: Schritte und Texte ohne IDs, Texte nur mit `important`
+    from: 1,
+    description: "schema.migration.v1",
+    migrate: (obj) =>
+      mapAllSteps(obj, (s) => ({
+        ...s,
+        id: s.id || uid(),
+        texts: Array.isArray(s.texts)
+          ? s.texts.map((x: any) => {
+              if (!x || typeof x !== "object") return x;
+              const { important, ...rest } = x;
+              return { ...rest, id: x.id || uid(), severity: x.severity ?? (important ? "danger" : "none") };
+            })
+          : s.texts,
+      })),
+  },
+  {
+    // Prozesse ohne eigene ID, Schritt-IDs noch kurz; gleiche Schritte im Verlauf erhalten dieselbe UUID
+    from: 2,
+    description: "schema.migration.v2",
+    migrate: (obj) => {
+      const upgrade = stepIdUpgrade();
+      return { ...mapAllSteps(obj, (s) => ({ ...s, id: upgrade(s.id) })), id: obj.id || uuid() };
+    },
+  },
+];
+
+/** Rohobjekt schrittweise auf SCHEMA_VERSION heben */
+export function migrate(obj: any) {
+  const fromVersion = typeof obj.schemaVersion === "number" ? obj.schemaVersion : 1;
+  const applied: string[] = [];
+  let current = obj;
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    const m = MIGRATIONS.find((x) => x.from === v);
+    if (!m) throw new Error(t("schema.noMigration", { version: v }));
+    current = { ...m.migrate(current), schemaVersion: v + 1 };
+    applied.push(`v${v} → v${v + 1}: ${t(m.description)}`);
+  }
+  return { obj: current, fromVersion, applied };
+}
+
+function validateSteps(steps: any, prefix: string, issues: ValidationIssue[]) {
+  const repair = (path: string, message: string) => issues.push({ level: "repair", path, message });
+  steps.forEach((s: any, i: number) => {
+    const at = `${prefix}${t("step.word")} ${i + 1}`;
+    if (!s || typeof s !== "object") {
+      repair(at, t("schema.step.invalid"));
+      return;
+    }
+    if (!s.id) repair(at, t("schema.idMissing"));
+    if (s.title !== undefined && typeof s.title !== "string") repair(at, t("schema.step.title"));
+    if (s.durationMin !== undefined && !(typeof s.durationMin === "number" && s.durationMin > 0)) repair(at, t("schema.step.duration", { value: String(s.durationMin) }));
+
+    if (s.photos !== undefined && !Array.isArray(s.photos)) repair(at, t("schema.step.photos"));
+    const photos: unknown[] = Array.isArray(s.photos) ? s.photos : [];
+    photos.forEach((p, pi) => {
+      const pp = `${at} › ${t("schema.path.photo", { number: pi + 1 })}`;
+      if (!isPhotoData(p)) repair(pp, t("schema.photo.invalid"));
+      const anns = s.annotations?.[pi];
+      if (anns === undefined) return;
+      if (!Array.isArray(anns)) {
+        repair(pp, t("schema.photo.annotations"));
+        return;
+      }
+      anns.forEach((a: any, ai: number) => {
+        if (!a || !ANNOTATION_KINDS.includes(a.kind)) repair(`${pp} › ${t("schema.path.annotation", { number: ai + 1 })}`, t("schema.photo.annotation"));
+      });
+    });
+
+    if (s.texts !== undefined && !Array.isArray(s.texts)) repair(at, t("schema.step.texts"));
+    (Array.isArray(s.texts) ? s.texts : []).forEach((x: any, ti: number) => {
+      const tp = `${at} › ${t("schema.path.text", { number: `${i + 1}.${ti + 1}` })}`;
+      if (!x || typeof x !== "object" || typeof x.content !== "string") repair(tp, t("schema.text.content"));
+      if (x && typeof x === "object") {
+        if (!x.id) repair(tp, t("schema.idMissing"));
+        if (!SEVERITIES.some((sv) => sv.key === x.severity)) repair(tp, t("schema.text.severity", { value: String(x.severity) }));
+      }
+    });
+
+    if (s.resources !== undefined && !Array.isArray(s.resources)) repair(at, t("schema.step.resources"));
+    (Array.isArray(s.resources) ? s.resources : []).forEach((r: any, ri: number) => {
+      if (!r || !RESOURCE_KINDS.includes(r.kind) || !String(r.name || "").trim()) repair(`${at} › ${t("schema.path.resource", { number: ri + 1 })}`, t("schema.resource.invalid"));
+    });
+  });
+}
+
+/** Prüft ein (bereits migriertes) Rohobjekt; meldet Fehler und alles, was beim Import korrigiert wird */
+export function validateProcess(obj: any): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ level: "error", path, message });
+  const repair = (path: string, message: string) => issues.push({ level: "repair", path, message });
+
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) {
+    error(t("schema.path.file"), t("schema.file.noProcess"));
+    return issues;
+  }
+  const at = t("schema.path.process");
+  if (typeof obj.id !== "string" || !obj.id) repair(at, t("schema.idMissing"));
+  if (typeof obj.name !== "string" || !obj.name.trim()) error(at, t("schema.process.name"));
+  if (!Array.isArray(obj.steps)) error(at, t("schema.process.steps"));
+  if (!parseVersion(String(obj.version ?? ""))) repair(at, t("schema.process.version", { value: String(obj.version ?? "") }));
+  if (typeof obj.createdAt !== "string" || isNaN(Date.parse(obj.createdAt))) repair(at, t("schema.process.createdAt"));
+  if (obj.languages !== undefined && !(Array.isArray(obj.languages) && obj.languages.every((l: any) => typeof l === "string" && l))) {
+    repair(at, t("schema.process.languages"));
+  }
+  if (obj.layout !== undefined) {
+    const normalized: any = normalizeLayout(obj.layout);
+    const changed = Object.keys(obj.layout || {}).filter((k) => normalized[k] !== obj.layout[k]);
+    if (!obj.layout || typeof obj.layout !== "object" || changed.length) repair(t("schema.path.layout"), t("schema.layout.invalid", { fields: changed.length ? ` (${changed.join(", ")})` : "" }));
+  }
+  if (Array.isArray(obj.steps)) {
+    if (obj.steps.length === 0) repair(at, t("schema.process.noSteps"));
+    validateSteps(obj.steps, "", issues);
+  }
+
+  if (obj.history !== undefined && !Array.isArray(obj.history)) repair(t("schema.path.history"), t("schema.history.invalid"));
+  (Array.isArray(obj.history) ? obj.history : []).forEach((h: any, i: number) => {
+    const vat = t("schema.path.version", { version: typeof h?.version === "string" && h.version ? h.version : i + 1 });
+    if (!h || typeof h !== "object") {
+      repair(vat, t("schema.version.invalid"));
+      return;
+    }
+    if (h.approval !== undefined && !normalizeApproval(h.approval)) repair(vat, t("schema.version.approval"));
+    if (!Array.isArray(h.steps)) repair(vat, t("schema.version.steps"));
+    else validateSteps(h.steps, `${vat} › `, issues);
+  });
+  return issues;
+}
+
+/** Geprüftes Rohobjekt in ProcessData überführen (fehlende Felder auffüllen, Ungültiges verwerfen) */
+export function normalizeProcess(obj: any): ProcessData {
+  const p: ProcessData = {
+    id: typeof obj.id === "string" && obj.id ? obj.id : uuid(),
+    name: String(obj.name).trim(),
+    version: parseVersion(String(obj.version ?? "")) ? String(obj.version).trim() : "1.0",
+    createdAt: typeof obj.createdAt === "string" && !isNaN(Date.parse(obj.createdAt)) ? obj.createdAt : new Date().toISOString(),
+    steps: obj.steps.map(normalizeStep),
+    history: Array.isArray(obj.history)
+      ? obj.history.map((h: any) => ({
+          version: String(h?.version || ""),
+          createdAt: String(h?.createdAt || ""),
+          author: String(h?.author || ""),
+          note: String(h?.note || ""),
+          name: String(h?.name || obj.name),
+          ...(normalizeTranslations(h?.nameTranslations) ? { nameTranslations: normalizeTranslations(h.nameTranslations) } : {}),
+          steps: Array.isArray(h?.steps) ? h.steps.map(normalizeStep) : [],
+          ...(normalizeApproval(h?.approval) ? { approval: normalizeApproval(h.approval) } : {}),
+        }))
+      : [],
+    layout: normalizeLayout(obj.layout),
+    ...(Array.isArray(obj.languages) && obj.languages.length && obj.languages.every((l: any) => typeof l === "string" && l) ? { languages: obj.languages } : {}),
+    ...(normalizeTranslations(obj.nameTranslations) ? { nameTranslations: normalizeTranslations(obj.nameTranslations) } : {}),
+  };
+  p.steps.forEach((s, i) => (s.index = i + 1));
+  if (p.steps.length === 0) p.steps.push(newStep(1));
+  return p;
+}
+
+/** Migration → Prüfung → Normalisierung; Grundlage für Import-Vorschau */
+export function importProcess(raw: unknown): ImportResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { process: null, fromVersion: 0, migrations: [], issues: [{ level: "error", path: t("schema.path.file"), message: t("schema.file.noProcess") }] };
+  }
+  const version = (raw as any).schemaVersion;
+  if (version !== undefined && !(Number.isInteger(version) && version >= 1)) {
+    return { process: null, fromVersion: 0, migrations: [], issues: [{ level: "error", path: t("schema.path.file"), message: t("schema.file.version", { value: String(version) }) }] };
+  }
+  if (version > SCHEMA_VERSION) {
+    return {
+      process: null,
+      fromVersion: version,
+      migrations: [],
+      issues: [{ level: "error", path: t("schema.path.file"), message: t("schema.file.newer", { version, supported: SCHEMA_VERSION }) }],
+    };
+  }
+  let migrated;
+  try {
+    migrated = migrate(raw);
+  } catch (e) {
+    return { process: null, fromVersion: version ?? 1, migrations: [], issues: [{ level: "error", path: t("schema.path.file"), message: e instanceof Error ? e.message : String(e) }] };
+  }
+  const issues = validateProcess(migrated.obj);
+  const ok = !issues.some((i) => i.level === "error");
+  return { process: ok ? normalizeProcess(migrated.obj) : null, fromVersion: migrated.fromVersion, migrations: migrated.applied, issues };
+}
+
+/** Dateiinhalt mit Formatversion; Gegenstück zu importProcess */
+export function serializeProcess(p: ProcessData) {
+  return { schemaVersion: SCHEMA_VERSION, ...p };
+}
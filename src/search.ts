@@ -0,0 +1,113 @@
+import { t } from "./i18n";
+import { ApprovalStatus, ProcessData, Severity, StepData, Translations, languageLabel } from "./model";
+
+/** ------------------------
+ *  Volltextsuche: Prozessname, Schritttitel, Texte (inkl. Übersetzungen)
+ *  ------------------------ */
+/** Nur die durchsuchbaren Teile eines Schritts (ohne Fotos); wird auch in den Bibliotheks-Listendaten gespeichert */
+export type SearchableStep = Pick<StepData, "index" | "title" | "titleTranslations" | "texts">;
+
+export interface SearchOutline {
+  name: string;
+  nameTranslations?: Translations;
+  steps: SearchableStep[];
+}
+
+/** Status für den Filter: Status der letzten eingereichten Version, "draft" = noch keine */
+export type ProcessStatus = ApprovalStatus | "draft";
+
+export interface SearchFilters {
+  importantOnly: boolean; // nur Texte mit Hinweis/Vorsicht/Gefahr
+  status: ProcessStatus | "";
+  version: string;        // Präfix, z. B. "2."
+  from: string;           // YYYY-MM-DD, geändert ab
+  to: string;             // YYYY-MM-DD, geändert bis einschließlich
+}
+
+export const EMPTY_FILTERS: SearchFilters = { importantOnly: false, status: "", version: "", from: "", to: "" };
+
+export interface SearchHit {
+  stepIndex: number | null; // Index im steps-Array; null = Prozessname
+  label: string;            // z. B. "Schritt 3 – Titel", "3.2"
+  text: string;
+  lang?: string;            // Treffer in einer Übersetzung
+  severity?: Severity;
+}
+
+export function outlineOf(p: Pick<ProcessData, "name" | "nameTranslations" | "steps">): SearchOutline {
+  return {
+    name: p.name,
+    ...(p.nameTranslations ? { nameTranslations: p.nameTranslations } : {}),
+    steps: p.steps.map((s) => ({ index: s.index, title: s.title, titleTranslations: s.titleTranslations, texts: s.texts })),
+  };
+}
+
+/** Suchbegriffe (Leerzeichen-getrennt); alle müssen im selben Feld vorkommen */
+export function searchTerms(query: string) {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function matches(text: string | undefined, terms: string[]) {
+  if (!text || terms.length === 0) return false;
+  const lower = text.toLowerCase();
+  return terms.every((term) => lower.includes(term));
+}
+
+/** Fundstellen zum Hervorheben, sortiert und zusammengefasst */
+export function highlightRanges(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i >= 0; i = lower.indexOf(term, i + term.length)) ranges.push([i, i + term.length]);
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([r[0], r[1]]);
+  }
+  return merged;
+}
+
+/** Alle Treffer in einem Prozess; Übersetzungen nur, wenn die Hauptsprache nicht schon trifft.
+ *  Ohne Suchbegriffe mit `importantOnly`: alle Hinweise/Warnungen. */
+export function searchOutline(o: SearchOutline, terms: string[], importantOnly = false): SearchHit[] {
+  const hits: SearchHit[] = [];
+  const field = (stepIndex: number | null, label: string, base: string | undefined, tr: Translations | undefined, severity?: Severity) => {
+    if (terms.length === 0 ? !!base : matches(base, terms)) {
+      hits.push({ stepIndex, label, text: base!, severity });
+      return;
+    }
+    for (const [lang, text] of Object.entries(tr || {})) {
+      if (matches(text, terms)) {
+        hits.push({ stepIndex, label: `${label} (${languageLabel(lang)})`, text, lang, severity });
+        return;
+      }
+    }
+  };
+  if (!importantOnly) field(null, t("languages.processName"), o.name, o.nameTranslations);
+  o.steps.forEach((s, i) => {
+    if (!importantOnly) field(i, s.title ? t("search.stepTitle", { index: s.index }) : `${t("step.word")} ${s.index}`, s.title, s.titleTranslations);
+    s.texts.forEach((x, ti) => {
+      if (importantOnly && x.severity === "none") return;
+      field(i, `${s.index}.${ti + 1}`, x.content, x.translations, x.severity);
+    });
+  });
+  return hits;
+}
+
+/** Filter auf Prozessebene (Status, Version, Änderungsdatum) */
+export function matchesFilters(e: { version: string; updatedAt: string; status?: ProcessStatus }, f: SearchFilters) {
+  if (f.status && (e.status || "draft") !== f.status) return false;
+  if (f.version.trim() && !e.version.startsWith(f.version.trim())) return false;
+  // Datumsgrenzen in lokaler Zeit, „bis“ einschließlich
+  const time = Date.parse(e.updatedAt);
+  if (f.from && time < new Date(`${f.from}T00:00`).getTime()) return false;
+  if (f.to && time >= new Date(`${f.to}T00:00`).getTime() + 24 * 60 * 60 * 1000) return false;
+  return true;
+}
+
+export function filtersActive(f: SearchFilters) {
+  return f.importantOnly || !!f.status || !!f.version.trim() || !!f.from || !!f.to;
+}
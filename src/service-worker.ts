@@ -0,0 +1,37 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+import { clientsClaim } from "workbox-core";
+import { ExpirationPlugin } from "workbox-expiration";
+import { createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { registerRoute } from "workbox-routing";
+import { StaleWhileRevalidate } from "workbox-strategies";
+
+/** ------------------------
+ *  Service Worker: App-Shell offline verfügbar
+ *  ------------------------ */
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+
+// Alle Build-Dateien: App-Shell, nachgeladene jsPDF-Chunks, PDF-Schriften (vom Build eingesetzt)
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Seitenaufrufe immer aus der vorgeladenen index.html beantworten
+const fileExtension = /\/[^/?]+\.[^/]+$/;
+registerRoute(({ request, url }) => {
+  if (request.mode !== "navigate") return false;
+  if (url.pathname.startsWith("/_")) return false;
+  if (fileExtension.test(url.pathname)) return false;
+  return true;
+}, createHandlerBoundToURL(process.env.PUBLIC_URL + "/index.html"));
+
+// Dateien aus public/ (Manifest, Icons) sind nicht im Build-Manifest
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && /\.(png|ico|json)$/.test(url.pathname),
+  new StaleWhileRevalidate({ cacheName: "static", plugins: [new ExpirationPlugin({ maxEntries: 20 })] })
+);
+
+// Neue Version erst aktivieren, wenn die App es anfordert (nach dem Sichern offener Änderungen)
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
@@ -0,0 +1,249 @@
+import { Annotation, ProcessData, StepMeta, StepOrigin, TextItem, approvalOf, hasLegacyStepIds, stepIdUpgrade, uid, uuid, withStepUuids } from "./model";
+import { ExecutionRecord } from "./execution";
+import { LibraryStep, ProcessTemplate } from "./templates";
+import { ProcessStatus, SearchOutline, outlineOf } from "./search";
+import { t } from "./i18n";
+
+/** ------------------------
+ *  Lokale Prozess-Bibliothek (IndexedDB)
+ *  ------------------------ */
+const DB_NAME = "prozess-doku";
+const DB_VERSION = 3;
+const META_STORE = "meta";         // nur Listendaten, ohne Fotos
+const PROCESS_STORE = "processes"; // vollständiger Prozess + Editor-Puffer
+const EXECUTION_STORE = "executions"; // Durchführungsprotokolle, Index je Prozess
+const STEP_STORE = "steps";         // Schrittbibliothek
+const TEMPLATE_STORE = "templates"; // Prozessvorlagen
+
+/** Ungespeicherter Editor-Zustand, damit halbfertige Schritte einen Tab-Abbruch überleben */
+export interface EditorDraft {
+  currentIndex: number;
+  pendingPhotos: string[];
+  pendingAnnotations?: Annotation[][];
+  pendingTexts: TextItem[];
+  pendingMeta?: StepMeta;
+  finalized: boolean;
+}
+
+export interface LibraryRecord {
+  id: string;
+  process: ProcessData;
+  draft?: EditorDraft;
+  updatedAt: string;   // ISO
+}
+
+export interface LibraryEntry {
+  id: string;
+  processId?: string;         // ProcessData.id für den QR-Abgleich; fehlt bei Einträgen von vor den Prozess-IDs
+  name: string;
+  version: string;
+  createdAt: string;
+  updatedAt: string;
+  stepOrigins?: StepOrigin[]; // eingefügte Bibliotheksschritte; fehlt bei Einträgen von vor der Schrittbibliothek
+  status?: ProcessStatus;     // Status der letzten eingereichten Version
+  outline?: SearchOutline;    // Texte für die Suche inkl. ungespeicherter Puffer; fehlt bei älteren Einträgen
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const r = indexedDB.open(DB_NAME, DB_VERSION);
+      r.onupgradeneeded = () => {
+        const db = r.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(PROCESS_STORE)) db.createObjectStore(PROCESS_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(EXECUTION_STORE)) {
+          db.createObjectStore(EXECUTION_STORE, { keyPath: "id" }).createIndex("processId", "processId");
+        }
+        if (!db.objectStoreNames.contains(STEP_STORE)) db.createObjectStore(STEP_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) db.createObjectStore(TEMPLATE_STORE, { keyPath: "id" });
+      };
+      r.onsuccess = () => resolve(r.result);
+      r.onerror = () => reject(r.error);
+    });
+    // Fehlgeschlagenes Öffnen nicht dauerhaft zwischenspeichern
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+function request<T>(r: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function completion(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function toEntry(rec: LibraryRecord): LibraryEntry {
+  const history = rec.process.history || [];
+  const d = rec.draft;
+  const steps = d ? rec.process.steps.map((s, i) => (i === d.currentIndex ? { ...s, texts: d.pendingTexts, ...d.pendingMeta } : s)) : rec.process.steps;
+  return {
+    id: rec.id,
+    processId: rec.process.id,
+    name: rec.process.name,
+    version: rec.process.version,
+    createdAt: rec.process.createdAt,
+    updatedAt: rec.updatedAt,
+    stepOrigins: rec.process.steps.flatMap((s) => (s.origin ? [s.origin] : [])),
+    status: history.length ? approvalOf(history[history.length - 1]).status : "draft",
+    outline: outlineOf({ ...rec.process, steps }),
+  };
+}
+
+/** Alle Prozesse, zuletzt geänderte zuerst */
+export async function listProcesses() {
+  const db = await openDb();
+  let entries = await request<LibraryEntry[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  // Einträge von vor der Suche bzw. den Prozess-IDs einmalig neu schreiben, damit Status, Suchtexte und ID vorliegen
+  const stale = entries.filter((e) => !e.outline || !e.processId);
+  if (stale.length) {
+    for (const e of stale) {
+      const rec = await loadRecord(e.id);
+      if (rec) await saveRecord(rec);
+    }
+    entries = await request<LibraryEntry[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  }
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadRecord(id: string) {
+  const db = await openDb();
+  const rec = await request<LibraryRecord | undefined>(db.transaction(PROCESS_STORE).objectStore(PROCESS_STORE).get(id));
+  // Prozesse von vor den UUIDs erhalten beim ersten Laden dauerhaft Prozess- und Schritt-UUIDs
+  if (rec && (!rec.process.id || hasLegacyStepIds(rec.process))) {
+    return upgradeIds(db, rec);
+  }
+  return rec;
+}
+
+/** Prozess und seine Durchführungsprotokolle gemeinsam umschreiben, damit Protokolle ihre Schritte behalten */
+async function upgradeIds(db: IDBDatabase, rec: LibraryRecord) {
+  const upgrade = stepIdUpgrade();
+  const next: LibraryRecord = { ...rec, process: { ...withStepUuids(rec.process, upgrade), id: rec.process.id || uuid() } };
+  const executions = await request<ExecutionRecord[]>(db.transaction(EXECUTION_STORE).objectStore(EXECUTION_STORE).index("processId").getAll(rec.id));
+  const tx = db.transaction([META_STORE, PROCESS_STORE, EXECUTION_STORE], "readwrite");
+  tx.objectStore(PROCESS_STORE).put(next);
+  tx.objectStore(META_STORE).put(toEntry(next));
+  for (const e of executions) {
+    tx.objectStore(EXECUTION_STORE).put({ ...e, steps: e.steps.map((s) => ({ ...s, stepId: upgrade(s.stepId) })) });
+  }
+  await completion(tx);
+  return next;
+}
+
+export async function saveRecord(rec: LibraryRecord) {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, PROCESS_STORE], "readwrite");
+  tx.objectStore(PROCESS_STORE).put(rec);
+  tx.objectStore(META_STORE).put(toEntry(rec));
+  await completion(tx);
+}
+
+/** Neuen Bibliothekseintrag für einen Prozess anlegen; liefert die ID */
+export async function createRecord(process: ProcessData, draft?: EditorDraft) {
+  const id = uid();
+  await saveRecord({ id, process, draft, updatedAt: new Date().toISOString() });
+  return id;
+}
+
+export async function renameProcess(id: string, name: string) {
+  const rec = await loadRecord(id);
+  if (!rec) return;
+  rec.process.name = name;
+  rec.updatedAt = new Date().toISOString();
+  await saveRecord(rec);
+}
+
+/** Kopie inkl. ungespeicherter Puffer; die Kopie zählt als neu angelegt */
+export async function duplicateProcess(id: string) {
+  const rec = await loadRecord(id);
+  if (!rec) return null;
+  const process: ProcessData = { ...rec.process, id: uuid(), name: `${rec.process.name} (${t("library.copy")})`, createdAt: new Date().toISOString() };
+  return createRecord(process, rec.draft);
+}
+
+/** Löscht auch alle Durchführungsprotokolle des Prozesses */
+export async function deleteProcess(id: string) {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, PROCESS_STORE, EXECUTION_STORE], "readwrite");
+  tx.objectStore(PROCESS_STORE).delete(id);
+  tx.objectStore(META_STORE).delete(id);
+  const executions = tx.objectStore(EXECUTION_STORE);
+  const keys = executions.index("processId").getAllKeys(id);
+  keys.onsuccess = () => keys.result.forEach((k) => executions.delete(k));
+  await completion(tx);
+}
+
+/** Durchführungen eines Prozesses, neueste zuerst */
+export async function listExecutions(processId: string) {
+  const db = await openDb();
+  const records = await request<ExecutionRecord[]>(db.transaction(EXECUTION_STORE).objectStore(EXECUTION_STORE).index("processId").getAll(processId));
+  return records.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function saveExecution(rec: ExecutionRecord) {
+  const db = await openDb();
+  const tx = db.transaction(EXECUTION_STORE, "readwrite");
+  tx.objectStore(EXECUTION_STORE).put(rec);
+  await completion(tx);
+}
+
+export async function deleteExecution(id: string) {
+  const db = await openDb();
+  const tx = db.transaction(EXECUTION_STORE, "readwrite");
+  tx.objectStore(EXECUTION_STORE).delete(id);
+  await completion(tx);
+}
+
+/** Schrittbibliothek, alphabetisch */
+export async function listLibrarySteps() {
+  const db = await openDb();
+  const steps = await request<LibraryStep[]>(db.transaction(STEP_STORE).objectStore(STEP_STORE).getAll());
+  return steps.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveLibraryStep(step: LibraryStep) {
+  const db = await openDb();
+  const tx = db.transaction(STEP_STORE, "readwrite");
+  tx.objectStore(STEP_STORE).put(step);
+  await completion(tx);
+}
+
+export async function deleteLibraryStep(id: string) {
+  const db = await openDb();
+  const tx = db.transaction(STEP_STORE, "readwrite");
+  tx.objectStore(STEP_STORE).delete(id);
+  await completion(tx);
+}
+
+/** Prozessvorlagen, alphabetisch */
+export async function listTemplates() {
+  const db = await openDb();
+  const templates = await request<ProcessTemplate[]>(db.transaction(TEMPLATE_STORE).objectStore(TEMPLATE_STORE).getAll());
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(template: ProcessTemplate) {
+  const db = await openDb();
+  const tx = db.transaction(TEMPLATE_STORE, "readwrite");
+  tx.objectStore(TEMPLATE_STORE).put(template);
+  await completion(tx);
+}
+
+export async function deleteTemplate(id: string) {
+  const db = await openDb();
+  const tx = db.transaction(TEMPLATE_STORE, "readwrite");
+  tx.objectStore(TEMPLATE_STORE).delete(id);
+  await completion(tx);
+}
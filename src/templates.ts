@@ -0,0 +1,124 @@
+import { ProcessData, StepData, Translations, newStep, uid, uuid } from "./model";
+
+/** ------------------------
+ *  Schrittbibliothek und Prozessvorlagen mit Platzhaltern ({{Maschine}})
+ *  ------------------------ */
+/** Wiederverwendbarer Schritt; jede Aktualisierung erhöht die Revision */
+export interface LibraryStep {
+  id: string;
+  name: string;
+  revision: number;
+  step: StepData;      // Fotos, Markierungen, Texte, Angaben; index/origin ohne Bedeutung
+  createdAt: string;   // ISO
+  updatedAt: string;
+}
+
+/** Prozess ohne Verlauf und Versionsnummer als Ausgangspunkt für neue Prozesse */
+export interface ProcessTemplate {
+  id: string;
+  name: string;        // Name der Vorlage in der Liste
+  createdAt: string;   // ISO
+  process: Pick<ProcessData, "name" | "steps" | "layout" | "languages" | "nameTranslations">;
+}
+
+/** Verwendung eines Bibliotheksschritts in einem Prozess der Bibliothek */
+export interface StepUsage {
+  processId: string;
+  processName: string;
+  revision: number;
+}
+
+/** Inhalt eines Schritts ohne Position/Status; für Bibliothek und Einfügen */
+function stepContent(step: StepData): StepData {
+  const { index, done, origin, ...content } = JSON.parse(JSON.stringify(step)) as StepData;
+  return { ...content, index: 1 };
+}
+
+export function newLibraryStep(step: StepData, name: string): LibraryStep {
+  const now = new Date().toISOString();
+  return { id: uid(), name, revision: 1, step: stepContent(step), createdAt: now, updatedAt: now };
+}
+
+export function updateLibraryStep(ls: LibraryStep, step: StepData): LibraryStep {
+  return { ...ls, revision: ls.revision + 1, step: stepContent(step), updatedAt: new Date().toISOString() };
+}
+
+/** Kopie zum Einfügen in einen Prozess; eigene Schritt-ID, Herkunft für spätere Aktualisierungen */
+export function stepFromLibrary(ls: LibraryStep, index: number, id = uuid()): StepData {
+  return { ...stepContent(ls.step), id, index, origin: { libraryId: ls.id, revision: ls.revision } };
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+function eachText(p: ProcessTemplate["process"], fn: (text: string) => void) {
+  const all = (base?: string, tr?: Translations) => [base, ...Object.values(tr || {})].forEach((t) => t && fn(t));
+  all(p.name, p.nameTranslations);
+  for (const s of p.steps) {
+    all(s.title, s.titleTranslations);
+    s.texts.forEach((t) => all(t.content, t.translations));
+  }
+}
+
+/** Platzhalternamen in Reihenfolge des ersten Auftretens (Name, Titel, Texte inkl. Übersetzungen) */
+export function placeholders(p: ProcessTemplate["process"]) {
+  const names: string[] = [];
+  eachText(p, (text) => {
+    for (const m of Array.from(text.matchAll(PLACEHOLDER))) if (!names.includes(m[1])) names.push(m[1]);
+  });
+  return names;
+}
+
+/** Platzhalter ersetzen; leere Werte bleiben als {{Name}} stehen */
+export function fillPlaceholders(text: string, values: Record<string, string>) {
+  return text.replace(PLACEHOLDER, (all, name: string) => values[name]?.trim() || all);
+}
+
+function fillTranslations(tr: Translations | undefined, values: Record<string, string>) {
+  if (!tr) return undefined;
+  return Object.fromEntries(Object.entries(tr).map(([lang, v]) => [lang, fillPlaceholders(v, values)]));
+}
+
+export function templateFromProcess(p: ProcessData, name: string): ProcessTemplate {
+  const { steps, layout, languages, nameTranslations } = JSON.parse(JSON.stringify(p)) as ProcessData;
+  return {
+    id: uid(),
+    name,
+    createdAt: new Date().toISOString(),
+    process: {
+      name: p.name,
+      // Freigabe-/Bearbeitungsstatus gehört nicht in die Vorlage; Herkunft bleibt für Bibliotheksschritte erhalten
+      steps: steps.filter((s) => s.photos.length > 0 || s.texts.length > 0).map((s) => ({ ...s, done: false })),
+      ...(layout ? { layout } : {}),
+      ...(languages ? { languages } : {}),
+      ...(nameTranslations ? { nameTranslations } : {}),
+    },
+  };
+}
+
+/** Neuer Prozess aus einer Vorlage; Name und Version kommen aus dem Anlegen-Formular */
+export function processFromTemplate(t: ProcessTemplate, name: string, version: string, values: Record<string, string>): ProcessData {
+  const src = t.process;
+  const p: ProcessData = {
+    id: uuid(),
+    name: fillPlaceholders(name, values),
+    version,
+    createdAt: new Date().toISOString(),
+    steps: src.steps.map((s, i) => ({
+      ...JSON.parse(JSON.stringify(s)),
+      id: uuid(),
+      index: i + 1,
+      ...(s.title ? { title: fillPlaceholders(s.title, values) } : {}),
+      ...(s.titleTranslations ? { titleTranslations: fillTranslations(s.titleTranslations, values) } : {}),
+      texts: s.texts.map((x) => ({
+        ...x,
+        content: fillPlaceholders(x.content, values),
+        ...(x.translations ? { translations: fillTranslations(x.translations, values) } : {}),
+      })),
+    })),
+    ...(src.layout ? { layout: src.layout } : {}),
+    ...(src.languages ? { languages: src.languages } : {}),
+    ...(src.nameTranslations ? { nameTranslations: fillTranslations(src.nameTranslations, values) } : {}),
+  };
+  if (p.steps.length === 0) p.steps.push(newStep(1));
+  return p;
+}
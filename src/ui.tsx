@@ -0,0 +1,50 @@
+import React from "react";
+
+/** ------------------------
+ *  Hilfs-UI (ohne Fremdbibliotheken)
+ *  ------------------------ */
+export function Button(props: React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: "default" | "outline" }) {
+  const { variant = "default", style, ...rest } = props;
+  const styles: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: variant === "outline" ? "1px solid #d1d5db" : "1px solid transparent",
+    background: props.disabled ? "#e5e7eb" : variant === "outline" ? "#fff" : "#111827",
+    color: props.disabled ? "#9ca3af" : variant === "outline" ? "#111827" : "#fff",
+    cursor: props.disabled ? "not-allowed" : "pointer",
+    fontSize: 14,
+    ...style,
+  };
+  return <button {...rest} style={styles} />;
+}
+
+export function Input(props: React.InputHTMLAttributes<HTMLInputElement>) {
+  return (
+    <input
+      {...props}
+      style={{
+        ...props.style,
+        padding: 8,
+        borderRadius: 10,
+        border: "1px solid #d1d5db",
+        width: "100%",
+      }}
+    />
+  );
+}
+
+export function Textarea(props: React.TextareaHTMLAttributes<HTMLTextAreaElement>) {
+  return (
+    <textarea
+      {...props}
+      style={{
+        ...props.style,
+        padding: 8,
+        borderRadius: 10,
+        border: "1px solid #d1d5db",
+        width: "100%",
+        minHeight: 90,
+      }}
+    />
+  );
+}
@@ -0,0 +1,24 @@
+import { UiLang, isUiLang, setUiLang } from "./i18n";
+
+/** ------------------------
+ *  Oberflächensprache im Browser merken (i18n.ts bleibt ohne DOM für die CLI)
+ *  ------------------------ */
+const UI_LANG_KEY = "prozess-doku.uiLang";
+
+function apply(lang: UiLang) {
+  setUiLang(lang);
+  document.documentElement.lang = lang;
+}
+
+/** Beim Start: gespeicherte Wahl, sonst Browsersprache, sonst Englisch */
+export function initUiLang() {
+  const saved = localStorage.getItem(UI_LANG_KEY);
+  const browser = (navigator.language || "").slice(0, 2);
+  apply(isUiLang(saved) ? saved : isUiLang(browser) ? browser : "en");
+}
+
+/** Wahl speichern; neu rendern muss der Aufrufer (App-State) */
+export function saveUiLang(lang: UiLang) {
+  localStorage.setItem(UI_LANG_KEY, lang);
+  apply(lang);
+}
@@ -0,0 +1,62 @@
+import { Annotation, ProcessData, StepMeta, TextItem } from "./model";
+
+/** ------------------------
+ *  Rückgängig/Wiederholen für den Editor
+ *  ------------------------ */
+const LIMIT = 100;
+const COALESCE_MS = 1000; // Tippen im selben Feld ergibt einen Schritt
+
+/** Vollständiger Editor-Zustand; alle Teile sind unveränderlich und werden nur referenziert */
+export interface EditorSnapshot {
+  process: ProcessData;
+  currentIndex: number;
+  pendingPhotos: string[];
+  pendingAnnotations: Annotation[][];
+  pendingTexts: TextItem[];
+  pendingMeta: StepMeta;
+  finalized: boolean;
+}
+
+/** Ausgeführter Befehl: Bezeichnung + Zustand auf der jeweils anderen Seite */
+export interface Command {
+  label: string;
+  snapshot: EditorSnapshot;
+  key?: string;        // gleicher Schlüssel kurz hintereinander → zusammenfassen
+  at: number;
+}
+
+export interface UndoStack {
+  past: Command[];
+  future: Command[];
+}
+
+export const EMPTY_STACK: UndoStack = { past: [], future: [] };
+
+/** Zustand vor einer Änderung merken; Wiederholen-Liste verfällt */
+export function record(stack: UndoStack, label: string, before: EditorSnapshot, key?: string): UndoStack {
+  const last = stack.past[stack.past.length - 1];
+  const now = Date.now();
+  if (key && last?.key === key && now - last.at < COALESCE_MS) {
+    return { past: [...stack.past.slice(0, -1), { ...last, at: now }], future: [] };
+  }
+  return { past: [...stack.past, { label, snapshot: before, key, at: now }].slice(-LIMIT), future: [] };
+}
+
+/** Letzten Befehl zurücknehmen; liefert den wiederherzustellenden Zustand */
+export function undo(stack: UndoStack, current: EditorSnapshot) {
+  const cmd = stack.past[stack.past.length - 1];
+  if (!cmd) return null;
+  return {
+    stack: { past: stack.past.slice(0, -1), future: [...stack.future, { label: cmd.label, snapshot: current, at: Date.now() }] },
+    snapshot: cmd.snapshot,
+  };
+}
+
+export function redo(stack: UndoStack, current: EditorSnapshot) {
+  const cmd = stack.future[stack.future.length - 1];
+  if (!cmd) return null;
+  return {
+    stack: { past: [...stack.past, { label: cmd.label, snapshot: current, at: Date.now() }], future: stack.future.slice(0, -1) },
+    snapshot: cmd.snapshot,
+  };
+}